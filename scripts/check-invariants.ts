@@ -0,0 +1,115 @@
+// runs Part2-style searches from every preset with the invariant checker on after every iteration:
+// npm run check:invariants
+// exits with status 1 at the first broken invariant
+
+import { buildTable, createMulberry32, makeNode, promoteChild, runIteration, mostVisited, childStats, type BackupMode } from "../src/mcts";
+import { CLASSIC, TicTacToe, boardKey, mnkGame, specKey, type BoardSpec } from "../src/tictactoe";
+import { PRESETS, presetsFor, type Preset } from "../src/presets";
+import { appendRecord, rewindTree, type IterationLog } from "../src/history";
+import { checkTree, formatViolation } from "../src/invariants";
+
+const ITERATIONS = 300;
+const ITERATIONS_AFTER_PROMOTION = 30;
+const SEEDS = [1, 2, 3];
+// larger m,n,k boards get one seed each; their trees are wider, not different in kind
+const SHAPES: BoardSpec[] = [{ width: 4, height: 4, k: 3 }, { width: 4, height: 4, k: 4 }, { width: 5, height: 5, k: 4 }, { width: 4, height: 3, k: 3 }];
+const MODES: BackupMode[] = ["negamax", "root"];
+const VARIANTS = [
+  { name: "tree", symmetry: false, transpositions: false },
+  { name: "dag", symmetry: false, transpositions: true },
+  { name: "symmetry", symmetry: true, transpositions: false },
+  { name: "symmetry+dag", symmetry: true, transpositions: true },
+];
+
+let failures = 0;
+let runs = 0;
+
+function report(label: string, problem: string | null) {
+  runs++;
+  if (problem) failures++;
+  process.stdout.write(`${problem ? "FAIL" : "ok  "} ${label}${problem ? `\n     ${problem}` : ""}\n`);
+}
+
+// search, checking after every iteration, then rewind through the log and play the game out by promoting subtrees
+function exercise(spec: BoardSpec, preset: Preset, variant: (typeof VARIANTS)[number], mode: BackupMode, seed: number): string | null {
+  const game = mnkGame(spec, variant.symmetry);
+  let root = makeNode(game, preset.board.slice());
+  const table = variant.transpositions ? buildTable(root, boardKey) : undefined;
+  const rand = createMulberry32(seed);
+  const log: IterationLog = [];
+
+  for (let i = 1; i <= ITERATIONS && root.terminal === null; i++) {
+    appendRecord(log, runIteration(game, root, { kind: "ucb1", C: 1 }, rand, mode, "random", table));
+    const v = checkTree(root, variant.transpositions, spec);
+    if (v) return `iteration ${i}: ${formatViolation(v, spec)}`;
+  }
+
+  for (const back of [1, Math.floor(log.length / 2), log.length]) {
+    const v = checkTree(rewindTree(root, log, back, mode), variant.transpositions, spec);
+    if (v) return `rewound ${back} iterations: ${formatViolation(v, spec)}`;
+  }
+
+  // as in Play vs MCTS: promote, then keep searching the promoted root with its own table, checked the way Part2 does
+  for (let ply = 0; root.terminal === null; ply++) {
+    const move = mostVisited(childStats(root)) ?? game.legalMoves(root.state)[0];
+    root = promoteChild(game, root, move, mode);
+    const v = checkTree(root, variant.transpositions, spec, true);
+    if (v) return `after promoting ply ${ply + 1}: ${formatViolation(v, spec)}`;
+    const promotedTable = variant.transpositions ? buildTable(root, boardKey) : undefined;
+    for (let i = 1; i <= ITERATIONS_AFTER_PROMOTION && root.terminal === null; i++) {
+      runIteration(game, root, { kind: "ucb1", C: 1 }, rand, mode, "random", promotedTable);
+      const w = checkTree(root, variant.transpositions, spec, true);
+      if (w) return `iteration ${i} after promoting ply ${ply + 1}: ${formatViolation(w, spec)}`;
+    }
+  }
+  return null;
+}
+
+// the checker has to notice broken trees too, or every "ok" above means nothing
+function selfTest(): string | null {
+  const corruptions: Array<[string, (r: ReturnType<typeof grow>) => void]> = [
+    ["visits", (r) => { [...r.children.values()][0].N += 2; }],
+    ["visits", (r) => { r.N++; r.wins++; }],   // off by one only at the root
+    ["outcomes", (r) => { r.wins++; }],
+    ["value", (r) => { r.W = r.N + 1; }],
+    ["untried", (r) => { r.untried.push([...r.children.keys()][0]); }],
+    ["child-board", (r) => { const ch = [...r.children.values()][0]; ch.state = ch.state.slice(); ch.state[ch.state.indexOf(null)] = "O"; }],
+  ];
+  for (const [rule, corrupt] of corruptions) {
+    const root = grow();
+    corrupt(root);
+    const v = checkTree(root);
+    if (v?.rule !== rule) return `a "${rule}" corruption was reported as ${v ? `"${v.rule}"` : "nothing"}`;
+  }
+  return null;
+}
+
+function grow() {
+  const root = makeNode(TicTacToe, PRESETS[0].board.slice());
+  const rand = createMulberry32(7);
+  for (let i = 0; i < 200; i++) runIteration(TicTacToe, root, { kind: "ucb1", C: 1 }, rand);
+  return root;
+}
+
+report("checker catches corrupted trees", selfTest());
+for (const preset of PRESETS) {
+  for (const variant of VARIANTS) {
+    for (const mode of MODES) {
+      for (const seed of SEEDS) {
+        report(`${preset.key} ${variant.name} ${mode} seed=${seed}`, exercise(CLASSIC, preset, variant, mode, seed));
+      }
+    }
+  }
+}
+for (const spec of SHAPES) {
+  for (const preset of presetsFor(spec)) {
+    for (const variant of VARIANTS) {
+      for (const mode of MODES) {
+        report(`${specKey(spec)} ${preset.key} ${variant.name} ${mode} seed=${SEEDS[0]}`, exercise(spec, preset, variant, mode, SEEDS[0]));
+      }
+    }
+  }
+}
+
+process.stdout.write(`\n${runs - failures}/${runs} passed\n`);
+if (failures > 0) process.exit(1);
@@ -0,0 +1,107 @@
+// headless runner: npm run cli -- --position "XO_/_X_/O__ x" --algo uct --iters 1000 --seed 42 --C 1.4
+// prints one JSON object with every legal move's N/W/Q and the recommended move;
+// for a finished game `outcome` is set and there are no moves
+
+import { parseArgs } from "node:util";
+import { FINAL_RULE_NAMES, ROLLOUT_NAMES, type FinalMoveRule, type RolloutPolicy } from "../src/mcts";
+import { formatPosition, parsePosition } from "../src/position";
+import { MAX_SIDE, emptyBoard, type BoardSpec } from "../src/tictactoe";
+import { runHeadless, type HeadlessOptions } from "../src/headless";
+
+const USAGE = `Usage: npm run cli -- [options]
+
+  --position <text>   board and side to move, e.g. "XO_/_X_/O__ x", or "... o" if O opened (default: empty board, X to move)
+  --width <n>         board width, 3 to ${MAX_SIDE} (default: 3)
+  --height <n>        board height, 3 to ${MAX_SIDE} (default: 3)
+  --k <n>             marks in a row to win, 3 to the longer side (default: 3)
+  --algo flat|uct     Part1 flat Monte Carlo or Part2 UCT (default: uct)
+  --iters <n>         UCT iterations (default: 1000)
+  --sims <n>          flat playouts per legal move (default: 100)
+  --C <x>             UCT exploration constant (default: 1)
+  --seed <n>          random seed (default: 42)
+  --rollout <name>    ${Object.keys(ROLLOUT_NAMES).join(" | ")} (default: random)
+  --rule <name>       ${Object.keys(FINAL_RULE_NAMES).join(" | ")} (default: max-value for flat, max-visits for uct)
+  --secure-a <x>      A for the secure rule (default: 1)
+  --compact           print the JSON on one line
+  --help              show this help
+`;
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function num(raw: string | undefined, name: string, fallback: number, min: number, integer = false): number {
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < min || (integer && !Number.isInteger(n))) {
+    fail(`--${name} must be ${integer ? "an integer" : "a number"} of at least ${min}, got "${raw}".`);
+  }
+  return n;
+}
+
+function main() {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        position: { type: "string" },
+        width: { type: "string" },
+        height: { type: "string" },
+        k: { type: "string" },
+        algo: { type: "string" },
+        iters: { type: "string" },
+        sims: { type: "string" },
+        C: { type: "string" },
+        seed: { type: "string" },
+        rollout: { type: "string" },
+        rule: { type: "string" },
+        "secure-a": { type: "string" },
+        compact: { type: "boolean" },
+        help: { type: "boolean" },
+      },
+    }));
+  } catch (e) {
+    fail((e as Error).message);
+  }
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const width = num(values.width, "width", 3, 3, true);
+  const height = num(values.height, "height", 3, 3, true);
+  if (Math.max(width, height) > MAX_SIDE) fail(`--width and --height can be at most ${MAX_SIDE}.`);
+  const k = num(values.k, "k", 3, 3, true);
+  if (k > Math.max(width, height)) fail(`--k can be at most the longer side, ${Math.max(width, height)}.`);
+  const spec: BoardSpec = { width, height, k };
+
+  const parsed = parsePosition(values.position ?? formatPosition(emptyBoard(spec), spec), spec);
+  if (!parsed.ok) fail(parsed.error);
+
+  const algo = values.algo ?? "uct";
+  if (algo !== "flat" && algo !== "uct") fail(`--algo must be flat or uct, got "${algo}".`);
+  const rolloutPolicy = (values.rollout ?? "random") as RolloutPolicy;
+  if (!(rolloutPolicy in ROLLOUT_NAMES)) fail(`Unknown rollout policy "${rolloutPolicy}".`);
+  const rule = (values.rule ?? (algo === "flat" ? "max-value" : "max-visits")) as FinalMoveRule;
+  if (!(rule in FINAL_RULE_NAMES)) fail(`Unknown final move rule "${rule}".`);
+
+  const common = {
+    board: parsed.board,
+    side: parsed.side,
+    spec,
+    seed: num(values.seed, "seed", 42, -2147483648, true),
+    rolloutPolicy,
+    rule,
+    secureA: num(values["secure-a"], "secure-a", 1, 0),
+  };
+  const opts: HeadlessOptions =
+    algo === "flat"
+      ? { ...common, algo, sims: num(values.sims, "sims", 100, 1, true) }
+      : { ...common, algo, iterations: num(values.iters, "iters", 1000, 1, true), C: num(values.C, "C", 1, 0) };
+
+  const result = runHeadless(opts);
+  process.stdout.write(`${JSON.stringify(result, null, values.compact ? undefined : 2)}\n`);
+}
+
+main();
@@ -1,10 +1,17 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import MonteCarloTicTacToePart1 from "./Part1";
 import MonteCarloTicTacToePart2 from "./Part2";
-import ConnectFourPart3 from "./Part3"; // NEW
+import Part3Exercises from "./Part3";
+import ConnectFourUCT from "./ConnectFour";
+import Arena from "./Arena";
+import UltimateTicTacToeUCT from "./UltimateTicTacToe";
+import { choiceParam, readParams, writeParams } from "./permalink";
+
+const TABS = ["part1", "part2", "part3", "connect4", "ultimate", "arena"] as const;
 
 export default function App() {
-  const [tab, setTab] = useState<"part1" | "part2" | "part3">("part1"); // add "part3"
+  const [tab, setTab] = useState<(typeof TABS)[number]>(() => choiceParam(readParams(), "tab", TABS) ?? "part1");
+  useEffect(() => writeParams({ tab }), [tab]);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-white to-slate-100">
@@ -47,12 +54,51 @@ export default function App() {
           >
             Part 3
           </button>
+
+          <button
+            onClick={() => setTab("connect4")}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+              tab === "connect4"
+                ? "bg-slate-900 text-white border-slate-900"
+                : "bg-white text-slate-700 border-slate-300 hover:bg-slate-50"
+            }`}
+            aria-pressed={tab === "connect4"}
+          >
+            Connect Four
+          </button>
+
+          <button
+            onClick={() => setTab("ultimate")}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+              tab === "ultimate"
+                ? "bg-slate-900 text-white border-slate-900"
+                : "bg-white text-slate-700 border-slate-300 hover:bg-slate-50"
+            }`}
+            aria-pressed={tab === "ultimate"}
+          >
+            Ultimate
+          </button>
+
+          <button
+            onClick={() => setTab("arena")}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+              tab === "arena"
+                ? "bg-slate-900 text-white border-slate-900"
+                : "bg-white text-slate-700 border-slate-300 hover:bg-slate-50"
+            }`}
+            aria-pressed={tab === "arena"}
+          >
+            Arena
+          </button>
         </div>
       </nav>
 
       {tab === "part1" && <MonteCarloTicTacToePart1 />}
       {tab === "part2" && <MonteCarloTicTacToePart2 />}
-      {tab === "part3" && <ConnectFourPart3 />}
+      {tab === "part3" && <Part3Exercises />}
+      {tab === "connect4" && <ConnectFourUCT />}
+      {tab === "ultimate" && <UltimateTicTacToeUCT />}
+      {tab === "arena" && <Arena />}
     </div>
   );
 }
@@ -0,0 +1,460 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ROLLOUT_NAMES, type RolloutPolicy } from "./mcts";
+import { TicTacToe, emptyBoard, indexToCoord, type Board } from "./tictactoe";
+import {
+  AGENT_NAMES,
+  agentLabel,
+  eloRatings,
+  playGame,
+  schedule,
+  tallyGames,
+  type AgentConfig,
+  type AgentKind,
+  type ArenaGame,
+} from "./tournament";
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const YIELD_MS = 30;
+const MAX_AGENTS = 6;
+
+// budget a newly picked kind starts with; random has none
+const DEFAULT_BUDGET: Record<AgentKind, number> = { random: 0, flat: 50, uct: 200 };
+// flat spends its budget on every legal move, so one of its moves costs up to nine times the number
+const MAX_BUDGET: Record<AgentKind, number> = { random: 0, flat: 2000, uct: 20000 };
+
+// a cleared or non-numeric field falls back to `fallback` instead of turning into NaN
+function parseOr(raw: string, fallback: number, parse: (s: string) => number = (s) => parseInt(s, 10)) {
+  const v = parse(raw);
+  return Number.isFinite(v) ? v : fallback;
+}
+
+const DEFAULT_AGENTS: AgentConfig[] = [
+  { kind: "random", budget: 0, C: 1, rolloutPolicy: "random" },
+  { kind: "flat", budget: 50, C: 1, rolloutPolicy: "random" },
+  { kind: "uct", budget: 100, C: 1, rolloutPolicy: "random" },
+  { kind: "uct", budget: 1000, C: 1.4, rolloutPolicy: "random" },
+];
+
+// agents and games of a finished (or running) tournament, kept apart from the editable list
+type Tournament = { agents: AgentConfig[]; games: ArenaGame<number>[]; total: number };
+
+function boardAfter(moves: number[]): Board {
+  return moves.reduce((b, m) => TicTacToe.applyMove(b, m), emptyBoard());
+}
+
+function pct(wins: number, draws: number, games: number) {
+  return games ? Math.round((100 * (wins + 0.5 * draws)) / games) : 0;
+}
+
+// one agent's settings row
+function AgentRow({
+  index,
+  agent,
+  onChange,
+  onRemove,
+  disabled,
+}: {
+  index: number;
+  agent: AgentConfig;
+  onChange: (a: AgentConfig) => void;
+  onRemove?: () => void;
+  disabled?: boolean;
+}) {
+  const input = "w-20 px-2 py-1 border border-slate-300 rounded-lg";
+  return (
+    <li className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="w-6 text-slate-500">#{index + 1}</span>
+      <select
+        className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+        value={agent.kind}
+        onChange={(e) => {
+          const kind = e.target.value as AgentKind;
+          onChange({ ...agent, kind, budget: DEFAULT_BUDGET[kind] });
+        }}
+        disabled={disabled}
+      >
+        {(Object.keys(AGENT_NAMES) as AgentKind[]).map((k) => (
+          <option key={k} value={k}>{AGENT_NAMES[k]}</option>
+        ))}
+      </select>
+      {agent.kind !== "random" && (
+        <>
+          <label className="flex items-center gap-1 text-slate-600">
+            {agent.kind === "flat" ? "Playouts/move" : "Iterations"}
+            <input
+              type="number"
+              min={1}
+              max={MAX_BUDGET[agent.kind]}
+              value={agent.budget}
+              onChange={(e) => onChange({ ...agent, budget: Math.min(MAX_BUDGET[agent.kind], Math.max(1, parseOr(e.target.value, 1))) })}
+              className={input}
+              disabled={disabled}
+            />
+          </label>
+          {agent.kind === "uct" && (
+            <label className="flex items-center gap-1 text-slate-600">
+              C
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={agent.C}
+                onChange={(e) => onChange({ ...agent, C: Math.max(0, parseOr(e.target.value, 0, parseFloat)) })}
+                className={input}
+                disabled={disabled}
+              />
+            </label>
+          )}
+          <select
+            className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+            value={agent.rolloutPolicy}
+            onChange={(e) => onChange({ ...agent, rolloutPolicy: e.target.value as RolloutPolicy })}
+            disabled={disabled}
+            aria-label="Rollout policy"
+          >
+            {(Object.keys(ROLLOUT_NAMES) as RolloutPolicy[]).map((k) => (
+              <option key={k} value={k}>{ROLLOUT_NAMES[k]}</option>
+            ))}
+          </select>
+        </>
+      )}
+      {onRemove && (
+        <button className="ml-auto text-xs text-rose-600 hover:underline disabled:opacity-40" onClick={onRemove} disabled={disabled}>
+          Remove
+        </button>
+      )}
+    </li>
+  );
+}
+
+// round-robin tournament between agent configurations, with a results matrix, ratings and game replay
+export default function Arena() {
+  const [agents, setAgents] = useState<AgentConfig[]>(DEFAULT_AGENTS);
+  const [gamesPerPair, setGamesPerPair] = useState(20);
+  const [seed, setSeed] = useState(42);
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [running, setRunning] = useState(false);
+  const [pair, setPair] = useState<[number, number] | null>(null);   // matrix cell whose games are listed
+  const [replay, setReplay] = useState<{ game: number; ply: number } | null>(null);
+  const cancelRef = useRef(false);
+
+  useEffect(() => () => { cancelRef.current = true; }, []);
+
+  const run = async () => {
+    cancelRef.current = false;
+    const field = agents.map((a) => ({ ...a }));
+    const fixtures = schedule(field.length, gamesPerPair, seed);
+    const games: ArenaGame<number>[] = [];
+    setTournament({ agents: field, games: [], total: fixtures.length });
+    setPair(null);
+    setReplay(null);
+    setRunning(true);
+    let sliceStart = performance.now();
+    // checked after every move, since one game between large budgets can take a while; Cancel drops the unfinished game
+    const pause = async () => {
+      if (performance.now() - sliceStart > YIELD_MS) {
+        setTournament({ agents: field, games: games.slice(), total: fixtures.length });
+        await new Promise((r) => setTimeout(r, 0));
+        sliceStart = performance.now();
+      }
+      return !cancelRef.current;
+    };
+    for (const f of fixtures) {
+      if (cancelRef.current) break;
+      const g = await playGame(TicTacToe, emptyBoard(), field, f.x, f.o, f.seed, pause);
+      if (!g) break;
+      games.push(g);
+    }
+    setTournament({ agents: field, games, total: fixtures.length });
+    setRunning(false);
+  };
+
+  const table = useMemo(() => (tournament ? tallyGames(tournament.agents.length, tournament.games) : null), [tournament]);
+  const ratings = useMemo(() => (table ? eloRatings(table) : null), [table]);
+  const standings = useMemo(() => {
+    if (!tournament || !table || !ratings) return [];
+    return tournament.agents
+      .map((a, i) => {
+        const tot = table[i].reduce((acc, t) => ({ wins: acc.wins + t.wins, draws: acc.draws + t.draws, losses: acc.losses + t.losses }), {
+          wins: 0,
+          draws: 0,
+          losses: 0,
+        });
+        return { i, label: agentLabel(a), elo: ratings[i], ...tot };
+      })
+      .sort((a, b) => b.elo - a.elo);
+  }, [tournament, table, ratings]);
+
+  // games shown in the list: one matrix cell's pairing, or all of them
+  const listed = useMemo(() => {
+    if (!tournament) return [];
+    return tournament.games
+      .map((g, idx) => ({ g, idx }))
+      .filter(({ g }) => !pair || (g.x === pair[0] && g.o === pair[1]) || (g.x === pair[1] && g.o === pair[0]));
+  }, [tournament, pair]);
+
+  const replayed = tournament && replay ? tournament.games[replay.game] : null;
+  const replayBoard = replayed && replay ? boardAfter(replayed.moves.slice(0, replay.ply)) : null;
+  const names = tournament?.agents.map(agentLabel) ?? [];
+
+  const btn = "px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-sm hover:bg-slate-50 disabled:opacity-40";
+
+  return (
+    <div className="w-full text-slate-800 p-4 sm:p-6 md:p-8">
+      <div className="max-w-5xl mx-auto grid gap-6 md:gap-8">
+
+        {/* header */}
+        <header>
+          <h2 className="text-2xl sm:text-3xl font-bold tracking-tight">Agent arena</h2>
+          <p className="mt-2 text-sm sm:text-base text-slate-700">
+            Part 1's flat Monte Carlo and Part 2's UCT search make different moves, but which one actually plays better, and how much do more
+            iterations or a different C help? Here every pair of agents plays a series of tic-tac-toe games from the empty board,
+            taking turns to move first, and the results are summed up as a win/draw/loss matrix and Elo ratings.
+          </p>
+
+          {/* "how to use" box */}
+          <section className="mt-3 rounded-2xl border border-violet-200 bg-violet-50 text-violet-900 p-4 sm:p-5">
+            <h3 className="text-base sm:text-lg font-semibold">How to use this demo</h3>
+            <ol className="mt-2 list-decimal ml-5 text-sm sm:text-base space-y-1">
+              <li>Set up two to six <span className="font-medium">agents</span>: random, flat Monte Carlo with a playout budget per move, or UCT with an iteration budget and C.</li>
+              <li>Choose the <span className="font-medium">games per pair</span> and a <span className="font-medium">seed</span>, then click <em>Run tournament</em>. The same seed replays the same games.</li>
+              <li>Each matrix cell is the row agent's wins–draws–losses against the column agent; click it to list those games.</li>
+              <li>Ratings are fitted to all results at once (a draw counts half), so they don't depend on the order the games were played in.</li>
+              <li>Click a game to <span className="font-medium">replay</span> it move by move. Perfect play always draws, so every loss is a mistake by the loser.</li>
+            </ol>
+          </section>
+        </header>
+
+        {/* agents + run controls */}
+        <section className="p-4 rounded-2xl bg-white shadow-sm grid gap-3">
+          <h3 className="text-lg font-semibold">Agents</h3>
+          <ol className="grid gap-2">
+            {agents.map((a, i) => (
+              <AgentRow
+                key={i}
+                index={i}
+                agent={a}
+                onChange={(next) => setAgents(agents.map((x, j) => (j === i ? next : x)))}
+                onRemove={agents.length > 2 ? () => setAgents(agents.filter((_, j) => j !== i)) : undefined}
+                disabled={running}
+              />
+            ))}
+          </ol>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              className={btn}
+              onClick={() => setAgents([...agents, { kind: "uct", budget: DEFAULT_BUDGET.uct, C: 1, rolloutPolicy: "random" }])}
+              disabled={running || agents.length >= MAX_AGENTS}
+            >
+              Add agent
+            </button>
+            <label htmlFor="arenaGames" className="text-sm text-slate-600">Games per pair:</label>
+            <input
+              id="arenaGames"
+              type="number"
+              min={1}
+              max={500}
+              value={gamesPerPair}
+              onChange={(e) => setGamesPerPair(Math.min(500, Math.max(1, parseOr(e.target.value, 1))))}
+              className="w-20 px-2 py-1 border border-slate-300 rounded-lg"
+              disabled={running}
+            />
+            <label htmlFor="arenaSeed" className="text-sm text-slate-600">Seed:</label>
+            <input
+              id="arenaSeed"
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(parseOr(e.target.value, 0))}
+              className="w-28 px-2 py-1 border border-slate-300 rounded-lg"
+              disabled={running}
+            />
+            <button
+              className="px-3 py-1.5 rounded-lg bg-emerald-500 text-white font-medium shadow hover:shadow-md hover:bg-emerald-600 disabled:opacity-50"
+              onClick={run}
+              disabled={running}
+            >
+              {running && tournament ? `Playing… ${tournament.games.length}/${tournament.total}` : "Run tournament"}
+            </button>
+            {running && (
+              <button className={btn} onClick={() => { cancelRef.current = true; }}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </section>
+
+        {tournament && table && (
+          <section className="grid md:grid-cols-2 gap-6 items-start">
+            {/* results matrix */}
+            <div className="p-4 rounded-2xl bg-white shadow-sm overflow-x-auto">
+              <h3 className="text-lg font-semibold">Results</h3>
+              <p className="text-xs text-slate-500">Row agent's wins–draws–losses against the column agent.</p>
+              <table className="mt-2 text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-500">
+                    <th></th>
+                    {names.map((n, j) => (
+                      <th key={j} className="px-2 py-1 font-medium" title={n}>#{j + 1}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {names.map((n, i) => (
+                    <tr key={i} className="border-t border-slate-200">
+                      <th className="px-2 py-1 text-left font-medium whitespace-nowrap">#{i + 1} {n}</th>
+                      {names.map((_, j) => {
+                        const t = table[i][j];
+                        const games = t.wins + t.draws + t.losses;
+                        const score = pct(t.wins, t.draws, games);
+                        const active = pair && pair[0] === i && pair[1] === j;
+                        return i === j ? (
+                          <td key={j} className="px-2 py-1 text-center text-slate-300">—</td>
+                        ) : (
+                          <td key={j} className="px-1 py-1">
+                            <button
+                              onClick={() => setPair(active ? null : [i, j])}
+                              className={classNames(
+                                "w-full px-2 py-1 rounded-lg tabular-nums whitespace-nowrap",
+                                active ? "ring-2 ring-slate-900" : "hover:ring-1 hover:ring-slate-300",
+                                games === 0 ? "text-slate-400" : score > 50 ? "bg-emerald-50 text-emerald-800" : score < 50 ? "bg-rose-50 text-rose-800" : "bg-slate-50"
+                              )}
+                            >
+                              {t.wins}–{t.draws}–{t.losses}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* ratings */}
+            <div className="p-4 rounded-2xl bg-white shadow-sm">
+              <h3 className="text-lg font-semibold">Ratings</h3>
+              <table className="mt-2 w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500">
+                    <th className="py-1">Agent</th>
+                    <th className="py-1 text-right">Elo</th>
+                    <th className="py-1 text-right">W–D–L</th>
+                    <th className="py-1 text-right">Score</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {standings.map((s) => (
+                    <tr key={s.i} className="border-t border-slate-200">
+                      <td className="py-1 font-medium">#{s.i + 1} {s.label}</td>
+                      <td className="py-1 text-right tabular-nums">{Math.round(s.elo)}</td>
+                      <td className="py-1 text-right tabular-nums">{s.wins}–{s.draws}–{s.losses}</td>
+                      <td className="py-1 text-right tabular-nums">{pct(s.wins, s.draws, s.wins + s.draws + s.losses)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* game list */}
+            <div className="p-4 rounded-2xl bg-white shadow-sm">
+              <div className="flex items-center gap-2">
+                <h3 className="text-lg font-semibold">Games</h3>
+                {pair && (
+                  <button className="ml-auto text-xs text-slate-600 hover:underline" onClick={() => setPair(null)}>
+                    Show all
+                  </button>
+                )}
+              </div>
+              <ul className="mt-2 max-h-72 overflow-y-auto grid gap-1 text-sm">
+                {listed.map(({ g, idx }) => (
+                  <li key={idx}>
+                    <button
+                      onClick={() => setReplay({ game: idx, ply: g.moves.length })}
+                      className={classNames(
+                        "w-full text-left px-2 py-1 rounded-lg",
+                        replay?.game === idx ? "bg-slate-900 text-white" : "hover:bg-slate-50"
+                      )}
+                    >
+                      <span className="tabular-nums">{idx + 1}.</span> X #{g.x + 1} vs O #{g.o + 1} ·{" "}
+                      {g.outcome === "D" ? "draw" : `${g.outcome} (#${(g.outcome === "X" ? g.x : g.o) + 1}) wins`} in {g.moves.length}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* replay */}
+            <div className="p-4 rounded-2xl bg-white shadow-sm">
+              <h3 className="text-lg font-semibold">Replay</h3>
+              {!replayed || !replay || !replayBoard ? (
+                <p className="mt-1 text-sm text-slate-500">Pick a game from the list.</p>
+              ) : (
+                <div className="mt-2 grid gap-3">
+                  <div className="text-sm">
+                    X: #{replayed.x + 1} {names[replayed.x]} · O: #{replayed.o + 1} {names[replayed.o]} · seed {replayed.seed}
+                  </div>
+                  <div className="grid grid-cols-3 gap-1 w-max">
+                    {replayBoard.map((c, i) => (
+                      <div
+                        key={i}
+                        className={classNames(
+                          "w-14 h-14 grid place-items-center rounded-xl border text-2xl font-semibold",
+                          replay.ply > 0 && replayed.moves[replay.ply - 1] === i ? "border-amber-500 bg-amber-50" : "border-slate-300"
+                        )}
+                      >
+                        {c ?? ""}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button className={btn} onClick={() => setReplay({ ...replay, ply: replay.ply - 1 })} disabled={replay.ply === 0}>
+                      ◀
+                    </button>
+                    <input
+                      type="range"
+                      min={0}
+                      max={replayed.moves.length}
+                      value={replay.ply}
+                      onChange={(e) => setReplay({ ...replay, ply: parseInt(e.target.value) })}
+                      className="flex-1"
+                      aria-label="Move"
+                    />
+                    <button
+                      className={btn}
+                      onClick={() => setReplay({ ...replay, ply: replay.ply + 1 })}
+                      disabled={replay.ply === replayed.moves.length}
+                    >
+                      ▶
+                    </button>
+                  </div>
+                  <ol className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                    {replayed.moves.map((m, k) => (
+                      <li key={k}>
+                        <button
+                          onClick={() => setReplay({ ...replay, ply: k + 1 })}
+                          className={classNames("hover:underline", k < replay.ply ? "text-slate-800" : "text-slate-400")}
+                        >
+                          {k + 1}. {k % 2 === 0 ? "X" : "O"} {indexToCoord(m)}
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                  <div className="text-sm font-medium">
+                    {replay.ply < replayed.moves.length
+                      ? `Move ${replay.ply} of ${replayed.moves.length}`
+                      : replayed.outcome === "D"
+                        ? "Draw"
+                        : `${replayed.outcome} wins`}
+                  </div>
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { MAX_SIDE, type BoardSpec } from "./tictactoe";
+
+// width × height and win length for m,n,k boards; k is kept within the longer side
+export default function BoardShapeControl({
+  spec,
+  onChange,
+  disabled,
+}: {
+  spec: BoardSpec;
+  onChange: (spec: BoardSpec) => void;
+  disabled?: boolean;
+}) {
+  const clampSide = (raw: string) => Math.min(MAX_SIDE, Math.max(3, parseInt(raw || "3")));
+  const withSides = (width: number, height: number) => onChange({ width, height, k: Math.min(spec.k, Math.max(width, height)) });
+  const input = "w-14 px-2 py-1 border border-slate-300 rounded-lg";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+      <span className="font-medium text-slate-800">Board:</span>
+      <input
+        type="number"
+        min={3}
+        max={MAX_SIDE}
+        value={spec.width}
+        onChange={(e) => withSides(clampSide(e.target.value), spec.height)}
+        className={input}
+        disabled={disabled}
+        aria-label="Board width"
+      />
+      ×
+      <input
+        type="number"
+        min={3}
+        max={MAX_SIDE}
+        value={spec.height}
+        onChange={(e) => withSides(spec.width, clampSide(e.target.value))}
+        className={input}
+        disabled={disabled}
+        aria-label="Board height"
+      />
+      <span>,</span>
+      <input
+        type="number"
+        min={3}
+        max={Math.max(spec.width, spec.height)}
+        value={spec.k}
+        onChange={(e) => onChange({ ...spec, k: Math.min(Math.max(spec.width, spec.height), Math.max(3, parseInt(e.target.value || "3"))) })}
+        className={input}
+        disabled={disabled}
+        aria-label="Marks in a row to win"
+      />
+      in a row
+    </div>
+  );
+}
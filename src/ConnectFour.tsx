@@ -0,0 +1,389 @@
+import { useMemo, useRef, useState, useLayoutEffect } from "react";
+import {
+  bestChildMove as mostVisitedMove,
+  createMulberry32,
+  makeNode,
+  otherPlayer,
+  runIteration,
+  type BackupMode,
+  type Node,
+} from "./mcts";
+import {
+  COLS,
+  ROWS,
+  ConnectFour,
+  boardFromRows,
+  checkWinner,
+  columnLabel,
+  dropRow,
+  emptyBoard,
+  nextPlayer,
+  winningLine,
+  type Board,
+} from "./connect4";
+
+type TreeNode = Node<Board, number>;
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+// presets
+const PRESETS: { key: string; name: string; board: Board; note: string }[] = [
+  { key: "empty", name: "Empty board", board: emptyBoard(), note: "Start position. The center column should collect the most visits." },
+  {
+    key: "mustblock",
+    name: "Must block (X to move)",
+    board: boardFromRows([".......", ".......", ".......", ".......", "X......", "XXOOO.."]),
+    note: "O threatens four in the bottom row. X must block in column 6.",
+  },
+  {
+    key: "win",
+    name: "Win available (X to move)",
+    board: boardFromRows([".......", ".......", ".......", "...X...", "...XO..", "..OXO.."]),
+    note: "X wins at once in column 4. Random rollouts still need a few hundred iterations to be sure.",
+  },
+];
+
+// iterations between UI updates while a run is in progress
+const CHUNK = 250;
+
+// components
+export default function ConnectFourUCT() {
+  const [presetKey, setPresetKey] = useState(PRESETS[0].key);
+  const [board, setBoard] = useState<Board>(PRESETS[0].board);
+
+  const [C, setC] = useState<number>(1);
+  const [iters, setIters] = useState<number>(2000);
+  const [seed, setSeed] = useState<number>(42);
+  const [backupMode, setBackupMode] = useState<BackupMode>("negamax");
+
+  const [root, setRoot] = useState<TreeNode>(() => makeNode(ConnectFour, PRESETS[0].board));
+  const [isRunning, setIsRunning] = useState(false);
+  const [done, setDone] = useState(0);
+  const cancelRef = useRef(false);
+
+  const currentPlayer = useMemo(() => nextPlayer(board), [board]);
+  const terminal = useMemo(() => checkWinner(board), [board]);
+  const winLine = useMemo(() => new Set(winningLine(board) ?? []), [board]);
+
+  // layout syncing
+  const leftPanelRef = useRef<HTMLDivElement>(null);
+  const [leftHeight, setLeftHeight] = useState<number | null>(null);
+  useLayoutEffect(() => {
+    const measure = () => { if (leftPanelRef.current) setLeftHeight(leftPanelRef.current.offsetHeight); };
+    measure();
+    window.addEventListener("resize", measure);
+    return () => window.removeEventListener("resize", measure);
+  }, [board, root, C, iters, terminal]);
+
+  const resetTreeToBoard = (b: Board) => {
+    setRoot(makeNode(ConnectFour, b));
+    setDone(0);
+  };
+
+  const handlePreset = (key: string) => {
+    if (isRunning) return;
+    const p = PRESETS.find((x) => x.key === key)!;
+    setPresetKey(key);
+    setBoard(p.board.slice());
+    resetTreeToBoard(p.board.slice());
+  };
+
+  const dropInColumn = (col: number) => {
+    if (terminal || isRunning || dropRow(board, col) < 0) return;
+    const b2 = ConnectFour.applyMove(board, col);
+    setBoard(b2);
+    resetTreeToBoard(b2);
+  };
+
+  const resetPosition = () => {
+    cancelRef.current = true;
+    const p = PRESETS.find((x) => x.key === presetKey)!;
+    setBoard(p.board.slice());
+    resetTreeToBoard(p.board.slice());
+  };
+
+  // fresh search from the current board, yielding to the UI between chunks
+  const runSearch = async () => {
+    if (terminal || isRunning) return;
+    cancelRef.current = false;
+    setIsRunning(true);
+    const rand = createMulberry32(seed >>> 0);
+    const workRoot = makeNode(ConnectFour, board.slice());
+    let n = 0;
+    try {
+      while (n < iters && !cancelRef.current) {
+        const end = Math.min(iters, n + CHUNK);
+        for (; n < end; n++) runIteration(ConnectFour, workRoot, { kind: "ucb1", C }, rand, backupMode);
+        setRoot({ ...workRoot });
+        setDone(n);
+        await new Promise((r) => setTimeout(r, 0));
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const onCancel = () => { cancelRef.current = true; };
+
+  const bestCol: number | null = useMemo(() => mostVisitedMove(root), [root]);
+
+  const maxN = useMemo(() => {
+    const arr = [...root.children.values()].map((c) => c.N);
+    return arr.length ? Math.max(...arr) : 0;
+  }, [root]);
+
+  const playRecommended = () => {
+    if (bestCol !== null) dropInColumn(bestCol);
+  };
+
+  const preset = PRESETS.find((p) => p.key === presetKey)!;
+
+  return (
+    <div className="w-full text-slate-800 p-4 sm:p-6 md:p-8">
+      <div className="max-w-5xl mx-auto grid gap-6 md:gap-8">
+
+        {/* header */}
+        <header>
+          <h2 className="text-2xl sm:text-3xl font-bold tracking-tight">Connect Four with UCT</h2>
+          <p className="mt-2 text-sm sm:text-base text-slate-700">
+            The same UCT search as Part 2, on a 7×6 board where pieces fall to the lowest free row and four in a row wins.
+            Games are longer and random playouts are much noisier than in tic-tac-toe, so the search needs far more iterations
+            before its recommendation settles.
+          </p>
+
+          {/* "how to use" box */}
+          <section className="mt-3 rounded-2xl border border-violet-200 bg-violet-50 text-violet-900 p-4 sm:p-5">
+            <h3 className="text-base sm:text-lg font-semibold">How to use this demo</h3>
+            <ol className="mt-2 list-decimal ml-5 text-sm sm:text-base space-y-1">
+              <li>Pick a <span className="font-medium">preset</span> or click a column to drop a piece for the player to move.</li>
+              <li>Set <span className="font-medium">Iterations</span>, <span className="font-medium">Seed</span> and <span className="font-medium">C</span>, then click <em>Run search</em>.</li>
+              <li>The bar above each column shows its share of root visits; the violet column is the recommendation.</li>
+              <li>Compare the <em>Must block</em> preset at 200 and at 5000 iterations to see how weak random rollouts are here.</li>
+              <li>Use <span className="font-medium">Play recommended</span> to let MCTS make the move, then search again for the reply.</li>
+            </ol>
+          </section>
+        </header>
+
+        <section className="grid md:grid-cols-3 gap-6 items-start">
+          {/* left: board + controls */}
+          <div ref={leftPanelRef} className="md:col-span-2 grid gap-4 p-4 rounded-2xl bg-white shadow-sm">
+
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="text-sm font-medium">Preset:</label>
+              <select
+                className="px-3 py-2 rounded-xl border border-slate-300 bg-white"
+                value={presetKey}
+                onChange={(e) => handlePreset(e.target.value)}
+                disabled={isRunning}
+              >
+                {PRESETS.map((p) => (
+                  <option key={p.key} value={p.key}>{p.name}</option>
+                ))}
+              </select>
+
+              <div className="flex items-center gap-2 ml-2">
+                <label htmlFor="c4seed" className="text-sm text-slate-600">Randomness Seed:</label>
+                <input
+                  id="c4seed"
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(Number.isFinite(parseInt(e.target.value)) ? parseInt(e.target.value) : 0)}
+                  className="w-28 px-2 py-1 border border-slate-300 rounded-lg"
+                />
+              </div>
+
+              <button
+                onClick={resetPosition}
+                className="ml-auto px-3 py-1.5 rounded-lg bg-rose-500 text-white font-medium shadow hover:shadow-md hover:bg-rose-600"
+              >
+                Reset
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={runSearch}
+                className="px-3 py-1.5 rounded-lg bg-emerald-500 text-white font-medium shadow hover:shadow-md hover:bg-emerald-600 disabled:opacity-50"
+                disabled={isRunning || !!terminal}
+              >
+                {isRunning ? `Running… ${done}/${iters}` : `Run search (${iters} iters)`}
+              </button>
+              <button
+                onClick={onCancel}
+                className="px-3 py-1.5 rounded-lg bg-rose-500 text-white font-medium shadow hover:shadow-md hover:bg-rose-600 disabled:opacity-40"
+                disabled={!isRunning}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={playRecommended}
+                className="px-3 py-1.5 rounded-lg bg-violet-600 text-white font-medium shadow hover:shadow-md hover:bg-violet-700 disabled:opacity-40"
+                disabled={isRunning || bestCol === null || !!terminal}
+              >
+                Play recommended
+              </button>
+              <span className="ml-auto text-sm">
+                To move:{" "}
+                <span className={classNames("font-semibold", currentPlayer === "X" ? "text-rose-600" : "text-amber-500")}>
+                  {currentPlayer === "X" ? "Red (X)" : "Yellow (O)"}
+                </span>
+              </span>
+            </div>
+
+            <p className="text-xs text-slate-500">{preset.note}</p>
+
+            {/* visit heatmap + board */}
+            <div className="grid gap-1 w-max">
+              <div className="grid grid-cols-7 gap-1">
+                {Array.from({ length: COLS }, (_, c) => {
+                  const N = root.children.get(c)?.N ?? 0;
+                  const heat = maxN > 0 ? N / maxN : 0;
+                  return (
+                    <div
+                      key={`h${c}`}
+                      className={classNames(
+                        "relative h-12 w-12 sm:w-14 rounded-lg border border-slate-200 overflow-hidden",
+                        bestCol === c && "ring-4 ring-violet-600"
+                      )}
+                    >
+                      <div className="absolute left-0 right-0 bottom-0 bg-emerald-500/70" style={{ height: `${Math.round(heat * 100)}%` }} />
+                      <span className="relative z-10 block text-center text-[11px] font-semibold leading-[3rem]">{N > 0 ? N : ""}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="grid grid-cols-7 gap-1 p-2 rounded-xl bg-blue-700">
+                {Array.from({ length: ROWS * COLS }, (_, idx) => {
+                  const col = idx % COLS;
+                  const v = board[idx];
+                  return (
+                    <button
+                      key={idx}
+                      onClick={() => dropInColumn(col)}
+                      className={classNames(
+                        "h-10 w-10 sm:h-12 sm:w-12 rounded-full border-2 border-blue-900 transition",
+                        v === "X" ? "bg-rose-500" : v === "O" ? "bg-amber-300" : "bg-white hover:bg-slate-100",
+                        winLine.has(idx) && "ring-4 ring-emerald-400"
+                      )}
+                      aria-label={`Drop in ${columnLabel(col)}`}
+                    />
+                  );
+                })}
+              </div>
+              <div className="grid grid-cols-7 gap-1 text-center font-medium text-slate-500">
+                {Array.from({ length: COLS }, (_, c) => <div key={`l${c}`}>{c + 1}</div>)}
+              </div>
+            </div>
+
+            {/* C and iterations */}
+            <div className="mt-2 grid gap-4">
+              <div className="grid gap-1">
+                <label className="text-xs uppercase tracking-wide text-slate-500">Exploration constant C (higher = more exploration)</label>
+                <div className="grid grid-cols-[1fr_auto] items-center gap-3">
+                  <input type="range" min={0} max={10} step={0.05} value={C} onChange={(e) => setC(parseFloat(e.target.value))} className="w-full" />
+                  <input
+                    type="number"
+                    value={C}
+                    step={0.05}
+                    min={0}
+                    max={10}
+                    onChange={(e) => setC(Math.max(0, Math.min(10, parseFloat(e.target.value || "0"))))}
+                    className="w-24 px-2 py-1 border border-slate-300 rounded-lg"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-1">
+                <label className="text-xs uppercase tracking-wide text-slate-500">Iterations per search</label>
+                <div className="grid grid-cols-[1fr_auto] items-center gap-3">
+                  <input
+                    type="range"
+                    min={100}
+                    max={20000}
+                    step={100}
+                    value={iters}
+                    onChange={(e) => setIters(parseInt(e.target.value))}
+                    className="w-full"
+                  />
+                  <input
+                    type="number"
+                    value={iters}
+                    min={10}
+                    max={50000}
+                    step={100}
+                    onChange={(e) => setIters(Math.max(10, Math.min(50000, parseInt(e.target.value || "0"))))}
+                    className="w-24 px-2 py-1 border border-slate-300 rounded-lg"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="c4backup" className="text-sm text-slate-600">Backprop:</label>
+                <select
+                  id="c4backup"
+                  className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                  value={backupMode}
+                  onChange={(e) => setBackupMode(e.target.value as BackupMode)}
+                >
+                  <option value="negamax">Adversarial (negamax)</option>
+                  <option value="root">Root perspective</option>
+                </select>
+              </div>
+            </div>
+
+            {terminal && (
+              <div className="mt-2 p-3 rounded-xl bg-amber-50 text-amber-800 border border-amber-200 text-sm">
+                This position is terminal: {terminal === "D" ? "Draw" : `${terminal === "X" ? "Red" : "Yellow"} wins`}.
+              </div>
+            )}
+          </div>
+
+          {/* right: stats */}
+          <aside className="p-4 rounded-2xl bg-white shadow-sm md:sticky md:top-6 flex flex-col" style={leftHeight ? { height: leftHeight } : undefined}>
+            <div className="flex flex-wrap items-center gap-2">
+              <h3 className="text-lg font-semibold">Results</h3>
+              {bestCol !== null && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-violet-100 text-violet-800 border border-violet-200">
+                  Recommended: {columnLabel(bestCol)}
+                </span>
+              )}
+              <span className="text-xs px-2 py-1 rounded-lg bg-slate-100 text-slate-700 border border-slate-200">
+                Iters: {done}
+              </span>
+            </div>
+
+            {root.children.size === 0 && <p className="mt-2 text-sm text-slate-600">Run a search to see per-column estimates.</p>}
+            {root.children.size > 0 && (
+              <p className="mt-2 text-xs text-slate-500">
+                Q and W/D/L are for {root.toMove}; {otherPlayer(root.toMove)} replies deeper in the tree
+                {backupMode === "negamax" ? " are chosen to hurt " : " are chosen to help "}{root.toMove}.
+              </p>
+            )}
+
+            <div className="mt-3 grid gap-3 flex-1 overflow-auto">
+              {[...root.children.entries()]
+                .sort((a, b) => b[1].N - a[1].N)
+                .map(([m, ch]) => {
+                  const Q = ch.N ? ch.W / ch.N : 0;
+                  const pct = maxN > 0 ? Math.round((ch.N / maxN) * 100) : 0;
+                  return (
+                    <div key={m} className={classNames("p-3 rounded-xl border", bestCol === m ? "border-violet-300 bg-violet-50" : "border-slate-200")}>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span className="text-sm font-medium">Column {m + 1}</span>
+                        <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">Visits: {ch.N}</span>
+                        <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">Q for {root.toMove}: {Q.toFixed(3)}</span>
+                        <span className="ml-auto text-xs text-slate-600">W/D/L: {ch.wins}/{ch.draws}/{ch.losses}</span>
+                      </div>
+                      <div className="mt-2 h-2.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-emerald-500" style={{ width: `${pct}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+            </div>
+          </aside>
+        </section>
+      </div>
+    </div>
+  );
+}
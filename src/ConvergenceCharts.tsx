@@ -0,0 +1,140 @@
+import { useMemo } from "react";
+import type { ChildPoint, ConvergenceSeries } from "./convergence";
+
+const W = 320;
+const H = 160;
+const PAD = { left: 34, right: 8, top: 8, bottom: 20 };
+
+// one colour per root move, hues spread evenly over however many moves the root has (up to 36 on 6x6)
+function moveColors(moves: number[]): Map<number, string> {
+  return new Map(moves.map((m, i) => [m, `hsl(${Math.round((360 * i) / moves.length)}, 70%, 48%)`]));
+}
+
+type Metric = { title: string; value: (c: ChildPoint, iteration: number) => number; fixed?: [number, number] };
+
+const METRICS: Metric[] = [
+  { title: "Share of root visits", value: (c, it) => (it ? c.N / it : 0), fixed: [0, 1] },
+  { title: "Q (root player)", value: (c) => c.Q, fixed: [0, 1] },
+  { title: "Selection score", value: (c) => c.score },
+];
+
+function LineChart({
+  series,
+  metric,
+  label,
+  colors,
+}: {
+  series: ConvergenceSeries;
+  metric: Metric;
+  label: (move: number) => string;
+  colors: Map<number, string>;
+}) {
+  const { points, lastChange } = series;
+  const x0 = points[0].iteration;
+  const x1 = Math.max(x0 + 1, points[points.length - 1].iteration);
+
+  const lines = useMemo(() => {
+    const byMove = new Map<number, Array<[number, number]>>();
+    for (const p of points) {
+      for (const c of p.children) {
+        const v = metric.value(c, p.iteration);
+        if (!Number.isFinite(v)) continue;
+        if (!byMove.has(c.move)) byMove.set(c.move, []);
+        byMove.get(c.move)!.push([p.iteration, v]);
+      }
+    }
+    return byMove;
+  }, [points, metric]);
+
+  const [y0, y1] = useMemo(() => {
+    if (metric.fixed) return metric.fixed;
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (const pts of lines.values()) for (const [, v] of pts) { lo = Math.min(lo, v); hi = Math.max(hi, v); }
+    if (!Number.isFinite(lo)) return [0, 1];
+    return lo === hi ? [lo - 0.5, hi + 0.5] : [lo, hi];
+  }, [lines, metric]);
+
+  const sx = (x: number) => PAD.left + ((x - x0) / (x1 - x0)) * (W - PAD.left - PAD.right);
+  const sy = (y: number) => H - PAD.bottom - ((y - y0) / (y1 - y0)) * (H - PAD.top - PAD.bottom);
+
+  return (
+    <figure className="p-2 rounded-xl border border-slate-200">
+      <figcaption className="text-xs font-medium text-slate-600">{metric.title}</figcaption>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto">
+        <line x1={PAD.left} y1={H - PAD.bottom} x2={W - PAD.right} y2={H - PAD.bottom} stroke="#cbd5e1" />
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={H - PAD.bottom} stroke="#cbd5e1" />
+        <text x={PAD.left - 4} y={PAD.top + 8} textAnchor="end" className="fill-slate-500 text-[9px]">{y1.toFixed(2)}</text>
+        <text x={PAD.left - 4} y={H - PAD.bottom} textAnchor="end" className="fill-slate-500 text-[9px]">{y0.toFixed(2)}</text>
+        <text x={PAD.left} y={H - 6} className="fill-slate-500 text-[9px]">{x0}</text>
+        <text x={W - PAD.right} y={H - 6} textAnchor="end" className="fill-slate-500 text-[9px]">{x1} iters</text>
+
+        {/* when the recommendation last changed */}
+        {lastChange !== null && lastChange >= x0 && (
+          <line x1={sx(lastChange)} y1={PAD.top} x2={sx(lastChange)} y2={H - PAD.bottom} stroke="#7c3aed" strokeDasharray="3 3" />
+        )}
+
+        {[...lines.entries()].map(([move, pts]) => (
+          <polyline
+            key={move}
+            fill="none"
+            stroke={colors.get(move)}
+            strokeWidth={1.5}
+            points={pts.map(([x, y]) => `${sx(x).toFixed(1)},${sy(Math.min(y1, Math.max(y0, y))).toFixed(1)}`).join(" ")}
+          >
+            <title>{label(move)}</title>
+          </polyline>
+        ))}
+      </svg>
+    </figure>
+  );
+}
+
+// how the root children's numbers evolved over the search
+export default function ConvergenceCharts({ series, label }: { series: ConvergenceSeries; label: (move: number) => string }) {
+  const moves = useMemo(() => {
+    const set = new Set<number>();
+    for (const p of series.points) for (const c of p.children) set.add(c.move);
+    return [...set].sort((a, b) => a - b);
+  }, [series.points]);
+  const colors = useMemo(() => moveColors(moves), [moves]);
+
+  return (
+    <section className="p-4 rounded-2xl bg-white shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-lg font-semibold">Convergence</h3>
+        {series.best !== null && (
+          <span className="text-xs px-2 py-1 rounded-lg bg-violet-100 text-violet-800 border border-violet-200">
+            Recommended {label(series.best)} since iteration {series.lastChange}
+          </span>
+        )}
+        {series.stride > 1 && (
+          <span className="text-xs px-2 py-1 rounded-lg bg-slate-100 text-slate-700 border border-slate-200">
+            1 point per {series.stride} iters
+          </span>
+        )}
+      </div>
+      {series.points.length < 2 ? (
+        <p className="mt-2 text-sm text-slate-600">Run some iterations to see how the root children settle.</p>
+      ) : (
+        <>
+          <div className="mt-3 grid gap-3 md:grid-cols-3">
+            {METRICS.map((m) => <LineChart key={m.title} series={series} metric={m} label={label} colors={colors} />)}
+          </div>
+          <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-slate-600">
+            {moves.map((m) => (
+              <span key={m} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5" style={{ backgroundColor: colors.get(m) }} />
+                {label(m)}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 border-t border-dashed border-violet-600" />
+              recommendation last changed
+            </span>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
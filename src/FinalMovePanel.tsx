@@ -0,0 +1,93 @@
+import { FINAL_RULE_NAMES, chooseMove, type ChildStats, type FinalMoveRule } from "./mcts";
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const RULES = Object.keys(FINAL_RULE_NAMES) as FinalMoveRule[];
+
+// rule picker plus what every rule would play, so disagreements are visible; `rules` limits the
+// choice where some rules carry no information, with `note` saying why
+export default function FinalMovePanel({
+  stats,
+  rules = RULES,
+  note,
+  rule,
+  onRuleChange,
+  secureA,
+  onSecureAChange,
+  label,
+}: {
+  stats: ChildStats<number>[];
+  rules?: FinalMoveRule[];
+  note?: string;
+  rule: FinalMoveRule;
+  onRuleChange: (rule: FinalMoveRule) => void;
+  secureA: number;
+  onSecureAChange: (a: number) => void;
+  label: (move: number) => string;
+}) {
+  const picks = rules.map((r) => ({ rule: r, move: stats.length ? chooseMove(stats, r, secureA) : null }));
+  const active = picks.find((p) => p.rule === rule)!.move;
+  const distinct = new Set(picks.map((p) => p.move).filter((m) => m !== null));
+
+  return (
+    <div className="p-3 rounded-xl border border-slate-200 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="finalRule" className="text-xs uppercase tracking-wide text-slate-500">Final move rule</label>
+        <select
+          id="finalRule"
+          className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+          value={rule}
+          onChange={(e) => onRuleChange(e.target.value as FinalMoveRule)}
+        >
+          {rules.map((r) => <option key={r} value={r}>{FINAL_RULE_NAMES[r]}</option>)}
+        </select>
+        {rule === "secure" && (
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            A
+            <input
+              type="number"
+              value={secureA}
+              step={0.1}
+              min={0}
+              onChange={(e) => onSecureAChange(Math.max(0, parseFloat(e.target.value || "0")))}
+              className="w-16 px-1.5 py-0.5 border border-slate-300 rounded-md"
+            />
+          </label>
+        )}
+      </div>
+      {note && <p className="mt-1 text-xs text-slate-500">{note}</p>}
+
+      {stats.length > 0 && (
+        <>
+          <table className="mt-2 w-full text-xs">
+            <tbody>
+              {picks.map((p) => (
+                <tr key={p.rule} className={classNames(p.rule === rule && "font-semibold")}>
+                  <td className="py-0.5">{FINAL_RULE_NAMES[p.rule]}</td>
+                  <td className="py-0.5">{p.move === null ? "no clear leader" : label(p.move)}</td>
+                  <td className="py-0.5 text-right">
+                    {p.move !== active && (
+                      <span className="px-1.5 rounded bg-amber-100 text-amber-800">differs</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {distinct.size > 1 && (
+            <p className="mt-2 text-xs text-slate-500">
+              The rules disagree. A move can have the best Q on only a few samples, so its value is still noisy;
+              {rules.includes("max-visits") ? " max visits and the lower bound favour" : " the lower bound favours"} moves whose value has
+              been confirmed many times.
+            </p>
+          )}
+          {rule === "robust-max" && active === null && (
+            <p className="mt-2 text-xs text-amber-700">No move leads both visits and value yet: run more iterations.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { otherPlayer, type Player } from "./mcts";
+import { CLASSIC, indexToCoord, type BoardSpec } from "./tictactoe";
+import { REPLAY_PHASES, type IterationLog, type ReplayPhase } from "./history";
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+export type Scrub = { index: number; phase: ReplayPhase };
+
+const PHASE_LABELS: Record<ReplayPhase, string> = {
+  selection: "Selection",
+  expansion: "Expansion",
+  simulation: "Simulation",
+  backprop: "Backpropagation",
+};
+
+// slider over the logged iterations; the page shows the tree as it was at the chosen point
+export default function IterationTimeline({
+  log,
+  rootN,
+  rootToMove,
+  scrub,
+  onScrub,
+  disabled,
+  spec = CLASSIC,
+}: {
+  log: IterationLog;
+  rootN: number;          // visits at the live root, to number the iterations
+  rootToMove: Player;
+  scrub: Scrub | null;
+  onScrub: (s: Scrub | null) => void;
+  disabled?: boolean;
+  spec?: BoardSpec;
+}) {
+  const coord = (i: number) => indexToCoord(i, spec);
+  const first = rootN - log.length + 1;   // iteration number of log[0]
+  const rec = scrub ? log[scrub.index] : null;
+
+  // walk phase by phase, across iteration boundaries
+  const stepPhase = (dir: 1 | -1) => {
+    if (!scrub) return;
+    let p = REPLAY_PHASES.indexOf(scrub.phase) + dir;
+    let index = scrub.index;
+    if (p < 0) {
+      if (index === 0) return;
+      index--;
+      p = REPLAY_PHASES.length - 1;
+    } else if (p >= REPLAY_PHASES.length) {
+      if (index === log.length - 1) return;
+      index++;
+      p = 0;
+    }
+    onScrub({ index, phase: REPLAY_PHASES[p] });
+  };
+
+  const btn = "px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-sm hover:bg-slate-50 disabled:opacity-40";
+  const moverAt = (depth: number) => (depth % 2 === 1 ? rootToMove : otherPlayer(rootToMove));
+
+  return (
+    <section className="p-4 rounded-2xl bg-white shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-lg font-semibold mr-2">Iteration history</h3>
+        <span className="text-xs px-2 py-1 rounded-lg bg-slate-100 text-slate-700 border border-slate-200">
+          {log.length} logged{log.length > 0 && ` (iterations ${first}–${rootN})`}
+        </span>
+        {!scrub ? (
+          <button
+            className={classNames(btn, "ml-auto")}
+            onClick={() => onScrub({ index: log.length - 1, phase: "selection" })}
+            disabled={disabled || log.length === 0}
+          >
+            Replay history
+          </button>
+        ) : (
+          <button className={classNames(btn, "ml-auto")} onClick={() => onScrub(null)}>
+            Back to live tree
+          </button>
+        )}
+      </div>
+
+      {!scrub && (
+        <p className="mt-1 text-xs text-slate-500">
+          Every iteration is logged with its path, expansion, rollout and the N/W changes it made. Open the replay to rewind the tree and
+          step through any of them phase by phase, forwards or backwards.
+        </p>
+      )}
+
+      {scrub && rec && (
+        <div className="mt-3 grid gap-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={log.length - 1}
+              value={scrub.index}
+              onChange={(e) => onScrub({ index: parseInt(e.target.value), phase: "selection" })}
+              className="flex-1 min-w-[200px]"
+              aria-label="Iteration"
+            />
+            <span className="text-sm font-medium w-32 text-right">Iteration {first + scrub.index}</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button className={btn} onClick={() => stepPhase(-1)} disabled={scrub.index === 0 && scrub.phase === "selection"}>
+              ◀ Back
+            </button>
+            {REPLAY_PHASES.map((p) => (
+              <button
+                key={p}
+                onClick={() => onScrub({ ...scrub, phase: p })}
+                className={classNames(
+                  "px-2 py-1 rounded-lg text-xs border",
+                  p === scrub.phase ? "bg-slate-900 text-white border-slate-900" : "bg-white text-slate-700 border-slate-300 hover:bg-slate-50"
+                )}
+              >
+                {PHASE_LABELS[p]}
+              </button>
+            ))}
+            <button
+              className={btn}
+              onClick={() => stepPhase(1)}
+              disabled={scrub.index === log.length - 1 && scrub.phase === "backprop"}
+            >
+              Forward ▶
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-3 text-xs">
+            <div className="p-2 rounded-xl border border-sky-200 bg-sky-50">
+              <div className="font-medium text-sky-900">Path</div>
+              <div className="mt-1 text-slate-700">
+                Root
+                {rec.path.map((m, i) => (
+                  <span key={i}>
+                    {" › "}
+                    <span className={classNames(rec.expanded && i === rec.path.length - 1 && "px-1 rounded bg-amber-100 text-amber-800")}>
+                      {moverAt(i + 1)} {coord(m)}
+                    </span>
+                  </span>
+                ))}
+              </div>
+              <div className="mt-1 text-slate-500">
+                {rec.expanded ? `Expanded ${coord(rec.path[rec.path.length - 1])}.` : "Nothing to expand: the leaf was terminal."}
+              </div>
+            </div>
+
+            <div className="p-2 rounded-xl border border-slate-200 bg-slate-50">
+              <div className="font-medium">Rollout</div>
+              {rec.trace.length === 0 && <div className="mt-1 text-slate-500">Game already over at the leaf.</div>}
+              <ol className="mt-1 grid gap-0.5">
+                {rec.trace.map((st, i) => (
+                  <li key={i}>
+                    {st.player} {coord(st.move)} <span className="text-slate-500">({st.rule})</span>
+                  </li>
+                ))}
+              </ol>
+              <div className="mt-1 font-medium">{rec.outcome === "D" ? "Draw" : `${rec.outcome} wins`}</div>
+            </div>
+
+            <div className="p-2 rounded-xl border border-emerald-200 bg-emerald-50">
+              <div className="font-medium text-emerald-900">Backpropagation</div>
+              <table className="mt-1 w-full">
+                <tbody>
+                  {rec.rewards.map((r, i) => (
+                    <tr key={i}>
+                      <td>{i === 0 ? "Root" : `${moverAt(i)} ${coord(rec.path[i - 1])}`}</td>
+                      <td className="text-right">N +1</td>
+                      <td className="text-right">W +{r}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,79 +1,28 @@
 import React, { useMemo, useState, useRef, useLayoutEffect } from "react";
-
-type Cell = 'X' | 'O' | null;
-type Board = Cell[];    // length 9
-type Outcome = 'X' | 'O' | 'D';    // D = draw/tie
-
-const LINES = [
-  [0, 1, 2],
-  [3, 4, 5],
-  [6, 7, 8],
-  [0, 3, 6],
-  [1, 4, 7],
-  [2, 5, 8],
-  [0, 4, 8],
-  [2, 4, 6],
-];
-
-function checkWinner(board: Board): Outcome | null {
-  for (const [a, b, c] of LINES) {
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return board[a] as Outcome;
-    }
-  }
-  if (board.every(Boolean)) return 'D';
-  return null;
-}
-
-function legalMoves(board: Board): number[] {
-  const moves: number[] = [];
-  board.forEach((c, i) => { if (!c) moves.push(i); });
-  return moves;
-}
-
-function nextPlayer(board: Board): 'X' | 'O' {
-  const x = board.filter(c => c === 'X').length;
-  const o = board.filter(c => c === 'O').length;
-  return x === o ? 'X' : 'O';
-}
-
-function randomChoice<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
-function rollout(board: Board, playerToMove: 'X' | 'O'): Outcome {
-  const b = board.slice();
-  let p = playerToMove;
-  let winner = checkWinner(b);
-  while (!winner) {
-    const moves = legalMoves(b);
-    if (moves.length === 0) return 'D';
-    const m = randomChoice(moves);
-    b[m] = p;
-    p = p === 'X' ? 'O' : 'X';
-    winner = checkWinner(b);
-  }
-  return winner;
-}
-
-function simulateMove(base: Board, move: number, player: 'X' | 'O', sims: number) {
-  // apply move once, then random playout many times
-  let wins = 0, draws = 0, losses = 0;
-  for (let k = 0; k < sims; k++) {
-    const b = base.slice();
-    b[move] = player;    // candidate move
-    const outcome = rollout(b, player === 'X' ? 'O' : 'X');
-    if (outcome === player) wins++;
-    else if (outcome === 'D') draws++;
-    else losses++;
-  }
-  return { wins, draws, losses };
-}
-
-
+import {
+  ROLLOUT_NAMES,
+  chooseMove,
+  createMulberry32,
+  simulateMove,
+  scoreOf,
+  statsFromMoveStats,
+  type FinalMoveRule,
+  type MoveStats,
+  type Player,
+  type RolloutPolicy,
+} from "./mcts";
+import FinalMovePanel from "./FinalMovePanel";
+import VarianceExperiment from "./VarianceExperiment";
+import PositionEditor from "./PositionEditor";
+import BoardShapeControl from "./BoardShapeControl";
+import SolverBadge from "./SolverBadge";
+import { formatSolution, isMistake, solveMoves } from "./solver";
+import { CONFIDENCE_LEVELS, probabilityBest, scoreMoments, simsNeeded, wilsonInterval } from "./confidence";
+import { presetsFor, type Preset } from "./presets";
+import { CLASSIC, checkWinner, emptyBoard, isClassic, firstMover, legalMoves, mnkGame, moveClasses, nextPlayer, indexToCoord, specKey, type Board, type BoardSpec, type Cell } from "./tictactoe";
 
 // presets for the user to see and play around with
-const PRESETS: { key: string; name: string; board: Board; note: string }[] = [
+const PRESETS: Preset[] = [
   {
     key: 'empty',
     name: 'Empty board',
@@ -121,12 +70,6 @@ function classNames(...xs: Array<string | false | undefined>) {
   return xs.filter(Boolean).join(' ');
 }
 
-function indexToCoord(i: number): string {
-  const row = Math.floor(i / 3) + 1;
-  const col = (i % 3) + 1;
-  return `(${row},${col})`;
-}
-
 function Bar({ label, value, total }: { label: string; value: number; total: number }) {
   const p = total ? (value / total) * 100 : 0;
   return (
@@ -139,12 +82,29 @@ function Bar({ label, value, total }: { label: string; value: number; total: num
   );
 }
 
-function CellView({ value, onClick, highlight }:{ value: Cell; onClick?: ()=>void; highlight?: boolean }) {
+// beyond this a single run would freeze the page
+const MAX_SUGGESTED_SIMS = 20000;
+
+// flat Monte Carlo splits playouts evenly, so only the rules that look at values can tell moves apart
+const FLAT_RULES: FinalMoveRule[] = ['max-value', 'secure'];
+
+// score on a 0..1 track with its confidence interval shaded
+function IntervalBar({ mean, lo, hi }: { mean: number; lo: number; hi: number }) {
+  return (
+    <div className="relative h-2.5 bg-gray-200 rounded-full overflow-hidden">
+      <div className="absolute inset-y-0 bg-sky-300" style={{ left: `${lo * 100}%`, width: `${(hi - lo) * 100}%` }} />
+      <div className="absolute inset-y-0 w-0.5 bg-sky-800" style={{ left: `calc(${mean * 100}% - 1px)` }} />
+    </div>
+  );
+}
+
+function CellView({ value, onClick, highlight, small }:{ value: Cell; onClick?: ()=>void; highlight?: boolean; small?: boolean }) {
   return (
     <button
       onClick={onClick}
       className={classNames(
-        'aspect-square w-20 sm:w-24 md:w-28 grid place-items-center text-2xl font-semibold rounded-2xl',
+        'aspect-square grid place-items-center font-semibold',
+        small ? 'w-12 sm:w-14 md:w-16 text-xl rounded-xl' : 'w-20 sm:w-24 md:w-28 text-2xl rounded-2xl',
         'border border-gray-300 hover:shadow-md transition',
         highlight ? 'ring-4 ring-emerald-400' : ''
       )}
@@ -158,15 +118,33 @@ function CellView({ value, onClick, highlight }:{ value: Cell; onClick?: ()=>voi
 
 // main component
 export default function MonteCarloTicTacToePart1() {
+  const [spec, setSpec] = useState<BoardSpec>(CLASSIC);
   const [presetKey, setPresetKey] = useState(PRESETS[1].key);
   const [board, setBoard] = useState<Board>(PRESETS[1].board);
+  const [first, setFirst] = useState<Player>('X');   // who opened the game; presets are all X, the editor can pick O
   const [simsPerMove, setSimsPerMove] = useState(10);
+  const [seed, setSeed] = useState(42);
+  const [rolloutPolicy, setRolloutPolicy] = useState<RolloutPolicy>('random');
+  const [symmetry, setSymmetry] = useState(false);   // one evaluation per symmetry class
   const [isRunning, setIsRunning] = useState(false);
-  const [results, setResults] = useState<Record<number, { wins: number; draws: number; losses: number }> | null>(null);
+  const [results, setResults] = useState<Record<number, MoveStats> | null>(null);
+  const [finalRule, setFinalRule] = useState<FinalMoveRule>('max-value');
+  const [secureA, setSecureA] = useState(1);
+  const [confidence, setConfidence] = useState('95%');
+  const z = CONFIDENCE_LEVELS[confidence];
 
-  const currentPlayer = useMemo(() => nextPlayer(board), [board]);
+  const presets = presetsFor(spec, PRESETS);
+  const game = mnkGame(spec, false, first);
+  const coord = (i: number) => indexToCoord(i, spec);
+
+  const currentPlayer = useMemo(() => nextPlayer(board, first), [board, first]);
   const moves = useMemo(() => legalMoves(board), [board]);
-  const terminal = useMemo(() => checkWinner(board), [board]);
+  const terminal = useMemo(() => checkWinner(board, spec), [board, spec]);
+
+  // with symmetry on, results are keyed by each class's representative and mirrored to the rest
+  const classes = useMemo(() => (symmetry ? moveClasses(board, spec) : moves.map(m => [m])), [symmetry, board, moves, spec]);
+  const classOf = useMemo(() => new Map(classes.flatMap(cls => cls.map(m => [m, cls] as const))), [classes]);
+  const repOf = (m: number) => classOf.get(m)?.[0] ?? m;
 
   // match right panel height to left panel
   const leftPanelRef = useRef<HTMLDivElement>(null);
@@ -179,37 +157,64 @@ export default function MonteCarloTicTacToePart1() {
     window.addEventListener("resize", measure);
     return () => window.removeEventListener("resize", measure);
     // deps that can change left panel height:
-  }, [board, results, simsPerMove, presetKey, terminal]);
+  }, [board, results, simsPerMove, presetKey, terminal, spec]);
 
   // run MCTS for all legal moves
   const run = async () => {
     setIsRunning(true);
     await new Promise(r => setTimeout(r, 30));
-    const agg: Record<number, { wins: number; draws: number; losses: number }> = {};
-    for (const m of moves) {
-      agg[m] = simulateMove(board, m, currentPlayer, simsPerMove);
+    const agg: Record<number, MoveStats> = {};
+    const rand = createMulberry32(seed >>> 0);
+    // a class pools the playouts its members would have had
+    for (const cls of classes) {
+      agg[cls[0]] = simulateMove(game, board, cls[0], simsPerMove * cls.length, rand, rolloutPolicy);
     }
     setResults(agg);
     setIsRunning(false);
   };
 
-  const bestMove = useMemo(() => {
+  const moveStats = useMemo(
+    () => (results ? Object.keys(results).map(Number).map(m => statsFromMoveStats(m, results[m])) : []),
+    [results]
+  );
+
+  const bestMove = useMemo(
+    () => (results ? chooseMove(moveStats, finalRule, secureA) : null),
+    [results, moveStats, finalRule, secureA]
+  );
+
+  // fixed seed so the estimate does not flicker between renders
+  const pBest = useMemo(
+    () => (results ? probabilityBest(moveStats.map(st => ({ ...results[st.move], move: st.move })), createMulberry32(1)) : null),
+    [results, moveStats]
+  );
+
+  // gap between the two best-scoring moves drives the sample-size estimate
+  const topTwo = useMemo(() => {
     if (!results) return null;
-    let best: number | null = null;
-    let bestScore = -Infinity;
-    for (const m of Object.keys(results).map(Number)) {
-      const { wins, draws, losses } = results[m];
-      const total = wins + draws + losses;
-      const score = total ? (wins + 0.5 * draws) / total : 0;    // win = 1, draw = 0.5, loss = 0
-      if (score > bestScore) { bestScore = score; best = m; }
-    }
-    return best;
+    const ranked = Object.keys(results).map(Number).sort((a, b) => scoreOf(results[b]) - scoreOf(results[a]));
+    return ranked.length >= 2 ? [ranked[0], ranked[1]] : null;
   }, [results]);
+  const needed = results && topTwo ? simsNeeded(results[topTwo[0]], results[topTwo[1]], z) : null;
+
+  // exact values, so a Monte Carlo pick can be checked against perfect play
+  const solved = useMemo(() => solveMoves(board, spec, first), [board, spec, first]);
+  const mistake = bestMove !== null && isMistake(solved, bestMove);
 
   const handlePreset = (key: string) => {
-    const p = PRESETS.find(x => x.key === key)!;
+    const p = presets.find(x => x.key === key)!;
     setPresetKey(key);
     setBoard(p.board.slice());
+    setFirst('X');
+    setResults(null);
+  };
+
+  // a new shape starts from its empty board
+  const changeShape = (next: BoardSpec) => {
+    setSpec(next);
+    setPresetKey('empty');
+    setBoard(emptyBoard(next));
+    setFirst('X');
     setResults(null);
   };
 
@@ -222,17 +227,18 @@ export default function MonteCarloTicTacToePart1() {
   };
 
   const resetBoard = () => {
-    const p = PRESETS.find(x => x.key === presetKey)!;
+    const p = presets.find(x => x.key === presetKey)!;
     setBoard(p.board.slice());
+    setFirst('X');
     setResults(null);
   };
 
   const totalFor = (m: number) => {
-    const r = results?.[m];
+    const r = results?.[repOf(m)];
     return r ? r.wins + r.draws + r.losses : 0;
   };
 
-  const preset = PRESETS.find(p => p.key === presetKey)!;
+  const preset = presets.find(p => p.key === presetKey)!;
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-white to-slate-100 text-slate-800 p-4 sm:p-6 md:p-8">
@@ -256,6 +262,14 @@ export default function MonteCarloTicTacToePart1() {
             <li><span className="font-medium">Start with a low number of simulations</span> (e.g., 1–5) and click <em>Run Monte Carlo</em>. Then, on the right panel, you can scroll through the calculated average scores for each move. Results may vary between runs due to randomness.</li>
             <li><span className="font-medium">Increase simulations</span> (tens → hundreds) and rerun. Win/Draw/Loss bars should become more stable, and the recommended move should change less often.</li>
             <li><span className="font-medium">Try editing the board</span>: click an empty cell to play a move for the current player, then run again to see how evaluations shift.</li>
+            <li><span className="font-medium">Rollout policy</span>: smarter playouts (win/block, weighted, shallow minimax) give less noisy estimates per simulation, at a higher cost per simulation.</li>
+            <li><span className="font-medium">Final move rule</span>: the recommendation uses the highest score by default. Switch to the lower-bound rule to prefer moves whose score is backed by enough playouts.</li>
+            <li><span className="font-medium">Solver</span>: every move also shows its exact value under perfect play (e.g. <em>Win in 3</em> plies). A red badge means the sampled recommendation throws away a better result.</li>
+            <li><span className="font-medium">Confidence</span>: each score comes with an interval and a probability of being the best move. The sample-size box estimates how many simulations it would take to separate the top two moves.</li>
+            <li><span className="font-medium">Seed</span>: the same seed always reproduces the same run. The <em>Variance experiment</em> below repeats the evaluation over many seeds and shows how often each move gets recommended and how widely its score spreads.</li>
+            <li><span className="font-medium">Use symmetry</span>: moves that are mirror images of each other (e.g. the four corners of the empty board) are worth the same, so only one per class is simulated, with the whole class's playouts, and its result is copied to the others.</li>
+            <li><span className="font-medium">Edit position</span>: set any cell freely and choose the side to move (O may open the game), or paste a position in the text notation (e.g. <code>XO_/_X_/O__ x</code>); <em>Copy</em> puts the current one on the clipboard.</li>
+            <li><span className="font-medium">Board shape</span>: grow the board (e.g. 4×4 with 3 in a row, 5×5 with 4) and every move gets its own batch of simulations, so the total cost grows with the branching factor. Compare with the UCT tab, which spends its budget unevenly. The exact solver only covers 3×3.</li>
             <li><span className="font-medium">Takeaway</span>: more simulations → less variance → more reliable estimates, but higher computation cost.</li>
           </ul>
         </section>
@@ -275,8 +289,16 @@ export default function MonteCarloTicTacToePart1() {
                 value={presetKey}
                 onChange={(e) => handlePreset(e.target.value)}
               >
-                {PRESETS.map(p => <option key={p.key} value={p.key}>{p.name}</option>)}
+                {presets.map(p => <option key={p.key} value={p.key}>{p.name}</option>)}
               </select>
+              <label htmlFor="seed1" className="text-sm text-slate-600">Randomness Seed:</label>
+              <input
+                id="seed1"
+                type="number"
+                value={seed}
+                onChange={(e) => setSeed(Number.isFinite(parseInt(e.target.value)) ? parseInt(e.target.value) : 0)}
+                className="w-24 px-2 py-1 border border-slate-300 rounded-lg"
+              />
               <div className="grow" />
               <button
                 className="px-3 py-1.5 rounded-lg bg-emerald-500 text-white text-sm font-medium shadow hover:shadow-md hover:bg-emerald-600 disabled:opacity-50"
@@ -293,21 +315,23 @@ export default function MonteCarloTicTacToePart1() {
               </button>
             </div>
 
+            <BoardShapeControl spec={spec} onChange={changeShape} disabled={isRunning} />
+
             <p className="text-xs text-slate-500">{preset.note}</p>
 
             {/* coordinate-labeled board */}
             <div>
-              <div className="grid grid-cols-[auto_repeat(3,1fr)] gap-3 w-max">
+              <div className="grid gap-3 w-max" style={{ gridTemplateColumns: `auto repeat(${spec.width}, 1fr)` }}>
                 <div></div>
-                {[1,2,3].map(c => (
-                  <div key={`col${c}`} className="text-center font-medium text-slate-500">{c}</div>
+                {Array.from({ length: spec.width }, (_, c) => (
+                  <div key={`col${c}`} className="text-center font-medium text-slate-500">{c + 1}</div>
                 ))}
-                {[1,2,3].map(r => (
+                {Array.from({ length: spec.height }, (_, r) => (
                   <React.Fragment key={`row${r}`}>
-                    <div className="flex items-center justify-center font-medium text-slate-500">{r}</div>
-                    {[0,1,2].map(c => {
-                      const idx = (r-1)*3 + c;
-                      return <CellView key={idx} value={board[idx]} onClick={() => placeMark(idx)} highlight={bestMove === idx && !!results} />;
+                    <div className="flex items-center justify-center font-medium text-slate-500">{r + 1}</div>
+                    {Array.from({ length: spec.width }, (_, c) => {
+                      const idx = r * spec.width + c;
+                      return <CellView key={idx} value={board[idx]} onClick={() => placeMark(idx)} highlight={bestMove !== null && bestMove === repOf(idx) && !!results} small={!isClassic(spec)} />;
                     })}
                   </React.Fragment>
                 ))}
@@ -346,8 +370,41 @@ export default function MonteCarloTicTacToePart1() {
                   />
                 </div>
               </div>
+
+              <div className="grid gap-1 shrink-0">
+                <label htmlFor="rollout" className="text-xs uppercase tracking-wide text-slate-500">
+                  Rollout policy
+                </label>
+                <select
+                  id="rollout"
+                  className="px-2 py-1.5 rounded-lg border border-slate-300 bg-white"
+                  value={rolloutPolicy}
+                  onChange={(e) => { setRolloutPolicy(e.target.value as RolloutPolicy); setResults(null); }}
+                >
+                  {(Object.keys(ROLLOUT_NAMES) as RolloutPolicy[]).map(k => <option key={k} value={k}>{ROLLOUT_NAMES[k]}</option>)}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-slate-600 self-end" title="Evaluate one move per symmetry class and mirror its result">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={symmetry}
+                  onChange={(e) => { setSymmetry(e.target.checked); setResults(null); }}
+                />
+                Use symmetry
+              </label>
             </div>
 
+            <PositionEditor
+              key={specKey(spec)}
+              board={board}
+              side={currentPlayer}
+              spec={spec}
+              onApply={(b, side) => { setBoard(b); setFirst(firstMover(b, side)); setResults(null); }}
+              disabled={isRunning}
+            />
+
 
 
             {terminal && (
@@ -366,7 +423,17 @@ export default function MonteCarloTicTacToePart1() {
               <h3 className="text-lg font-semibold">Results</h3>
               {results && bestMove !== null && (
                 <span className="text-xs px-2 py-1 rounded-lg bg-emerald-100 text-emerald-800 border border-emerald-200">
-                  Recommended: {indexToCoord(bestMove)}
+                  Recommended: {coord(bestMove)}
+                </span>
+              )}
+              {results && bestMove !== null && pBest && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-sky-50 text-sky-800 border border-sky-200" title="Posterior probability that this move has the highest true score">
+                  P(best) ≈ {Math.round(100 * pBest.get(bestMove)!)}%
+                </span>
+              )}
+              {results && mistake && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-rose-100 text-rose-800 border border-rose-200">
+                  Mistake: {formatSolution(solved.get(bestMove!)!)} under perfect play
                 </span>
               )}
             </div>
@@ -377,22 +444,84 @@ export default function MonteCarloTicTacToePart1() {
               </p>
             )}
 
+            <div className="mt-3">
+              <FinalMovePanel
+                stats={moveStats}
+                rules={FLAT_RULES}
+                note="Every move gets the same playouts here (a symmetry class gets its members' share), so visit counts say nothing about quality: max visits and robust-max are left out."
+                rule={finalRule}
+                onRuleChange={setFinalRule}
+                secureA={secureA}
+                onSecureAChange={setSecureA}
+                label={coord}
+              />
+            </div>
+
+            {/* how many playouts would separate the top two */}
+            {results && topTwo && (
+              <div className="mt-3 p-3 rounded-xl border border-slate-200 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <label htmlFor="confidence" className="text-xs uppercase tracking-wide text-slate-500">Confidence</label>
+                  <select
+                    id="confidence"
+                    className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                    value={confidence}
+                    onChange={(e) => setConfidence(e.target.value)}
+                  >
+                    {Object.keys(CONFIDENCE_LEVELS).map(k => <option key={k} value={k}>{k}</option>)}
+                  </select>
+                </div>
+                <p className="mt-2 text-xs text-slate-600">
+                  Top two: {coord(topTwo[0])} at {scoreOf(results[topTwo[0]]).toFixed(3)} vs {coord(topTwo[1])} at {scoreOf(results[topTwo[1]]).toFixed(3)}.{' '}
+                  {needed === Infinity
+                    ? 'They are tied, so no number of playouts would separate them at this gap.'
+                    : `To tell a gap this size apart at ${confidence} you need about ${needed!.toLocaleString()} simulations per move (${(needed! * moves.length).toLocaleString()} in total).`}
+                </p>
+                {needed !== null && needed > simsPerMove && needed <= MAX_SUGGESTED_SIMS && (
+                  <button
+                    className="mt-2 px-3 py-1.5 rounded-lg border border-sky-300 text-sky-700 text-xs hover:bg-sky-50"
+                    onClick={() => setSimsPerMove(needed)}
+                  >
+                    Use {needed.toLocaleString()} simulations
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* scroll right panel with scores */}
             <div className="mt-3 grid gap-4 flex-1 overflow-auto">
               {results && moves.map((m) => {
-                const r = results[m];
+                const rep = repOf(m);
+                const r = results[rep];
+                const size = classOf.get(m)?.length ?? 1;
                 const total = totalFor(m);
-                const score = total ? ((r.wins + 0.5*r.draws) / total) : 0;
+                const score = scoreOf(r);
+                const [lo, hi] = wilsonInterval(r, z);
+                const { variance } = scoreMoments(r);
                 return (
                   <div key={m} className={classNames(
                     'p-3 rounded-xl border',
-                    bestMove === m ? 'border-emerald-300 bg-emerald-50' : 'border-slate-200'
+                    bestMove === rep ? 'border-emerald-300 bg-emerald-50' : 'border-slate-200'
                   )}>
                     <div className="flex flex-wrap items-center gap-3">
-                      <span className="text-sm font-medium">Move at {indexToCoord(m)}</span>
+                      <span className="text-sm font-medium">Move at {coord(m)}</span>
+                      {rep !== m && (
+                        <span className="text-xs px-2 py-0.5 rounded-md bg-teal-50 text-teal-800 border border-teal-200">mirror of {coord(rep)}</span>
+                      )}
+                      {rep === m && size > 1 && (
+                        <span className="text-xs px-2 py-0.5 rounded-md bg-teal-50 text-teal-800 border border-teal-200">pooled for {size} symmetric moves</span>
+                      )}
                       <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">Total playouts: {total}</span>
+                      <SolverBadge solution={solved.get(m)} />
                       <span className="ml-auto text-sm">Score: <span className="font-semibold">{score.toFixed(3)}</span></span>
                     </div>
+                    <div className="mt-2 grid gap-1">
+                      <div className="flex flex-wrap justify-between text-xs text-slate-600">
+                        <span>{confidence} CI [{lo.toFixed(3)}, {hi.toFixed(3)}] · sd {Math.sqrt(variance).toFixed(3)}</span>
+                        {pBest && <span>P(best) {Math.round(100 * pBest.get(rep)!)}%</span>}
+                      </div>
+                      <IntervalBar mean={score} lo={lo} hi={hi} />
+                    </div>
                     <div className="mt-2 grid gap-2">
                       <Bar label="Wins" value={r.wins} total={total} />
                       <Bar label="Draws" value={r.draws} total={total} />
@@ -404,6 +533,21 @@ export default function MonteCarloTicTacToePart1() {
             </div>
           </aside>
         </section>
+
+        {!terminal && (
+          <VarianceExperiment
+            key={`${specKey(spec)}:${board.join(',')}:${first}:${symmetry}`}
+            game={game}
+            board={board}
+            spec={spec}
+            classes={classes}
+            simsPerMove={simsPerMove}
+            rolloutPolicy={rolloutPolicy}
+            seed={seed}
+            finalRule={finalRule}
+            secureA={secureA}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,173 +1,88 @@
-import React, { useMemo, useRef, useState, useLayoutEffect } from "react";
-
-// game helpers
-type Cell = "X" | "O" | null;
-type Board = Cell[];   // length 9
-type Outcome = "X" | "O" | "D";   // D = draw/tie
-
-const LINES = [
-  [0, 1, 2],
-  [3, 4, 5],
-  [6, 7, 8],
-  [0, 3, 6],
-  [1, 4, 7],
-  [2, 5, 8],
-  [0, 4, 8],
-  [2, 4, 6],
-];
-
-function checkWinner(board: Board): Outcome | null {
-  for (const [a, b, c] of LINES) {
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return board[a] as Outcome;
-    }
-  }
-  if (board.every(Boolean)) return "D";
-  return null;
-}
-function legalMoves(board: Board): number[] {
-  const m: number[] = [];
-  board.forEach((c, i) => !c && m.push(i));
-  return m;
-}
-function nextPlayer(board: Board): "X" | "O" {
-  const x = board.filter((c) => c === "X").length;
-  const o = board.filter((c) => c === "O").length;
-  return x === o ? "X" : "O";
-}
-function indexToCoord(i: number) {
-  const r = Math.floor(i / 3) + 1;
-  const c = (i % 3) + 1;
-  return `(${r},${c})`;
-}
+import React, { useEffect, useMemo, useRef, useState, useLayoutEffect } from "react";
+import {
+  backpropPath,
+  buildTable,
+  childStats,
+  chooseMove,
+  createMulberry32,
+  expand,
+  bestChildMove as bestChildMoveOf,
+  isFullyExpanded,
+  makeNode,
+  otherPlayer,
+  POLICY_NAMES,
+  ROLLOUT_NAMES,
+  FINAL_RULE_NAMES,
+  movesAlong,
+  promoteChild,
+  rollout,
+  runIteration,
+  selectChild,
+  selectionSteps,
+  type Node,
+  type BackupMode,
+  type FinalMoveRule,
+  type Player,
+  type RNG,
+  type RolloutPolicy,
+  type RolloutRule,
+  type SelectionPolicy,
+  type SelectionStep,
+  type TranspositionTable,
+} from "./mcts";
+import {
+  MAX_SIDE,
+  boardKey,
+  checkWinner,
+  emptyBoard,
+  indexToCoord,
+  isClassic,
+  mnkGame,
+  firstMover,
+  nextPlayer,
+  representativeOf,
+  specKey,
+  type Board,
+  type BoardSpec,
+  type Cell,
+} from "./tictactoe";
+import FinalMovePanel from "./FinalMovePanel";
+import SearchTreeView from "./SearchTreeView";
+import SolverBadge from "./SolverBadge";
+import ConvergenceCharts from "./ConvergenceCharts";
+import TranspositionCompare from "./TranspositionCompare";
+import PositionEditor from "./PositionEditor";
+import TreeExportPanel from "./TreeExportPanel";
+import type { TreeFlags } from "./treeExport";
+import IterationTimeline, { type Scrub } from "./IterationTimeline";
+import SelectionStrip from "./SelectionStrip";
+import BoardShapeControl from "./BoardShapeControl";
+import { appendRecord, latest, rewindTree, type IterationLog } from "./history";
+import { formatPosition, parsePosition } from "./position";
+import { presetsFor } from "./presets";
+import { checkTree, formatViolation, type Violation } from "./invariants";
+import { boolParam, choiceParam, numberParam, readParams, writeParams } from "./permalink";
+import { cloneSeries, emptySeries, recordPoint, type ConvergenceSeries } from "./convergence";
+import { formatSolution, isMistake, solveMoves } from "./solver";
+import type { SearchSnapshot, WorkerRequest, WorkerResponse } from "./uctWorker";
+
+type TreeNode = Node<Board, number>;
+
 function classNames(...xs: Array<string | false | undefined>) {
   return xs.filter(Boolean).join(" ");
 }
 
-// seeded RNG using Mulberry32
-type RNG = () => number;
-function createMulberry32(seed: number): RNG {
-  let t = (seed >>> 0) || 0;
-  return function () {
-    t += 0x6D2B79F5;
-    let x = Math.imul(t ^ (t >>> 15), 1 | t);
-    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
-    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
-  };
-}
-function randChoice<T>(arr: T[], rand: RNG): T {
-  return arr[Math.floor(rand() * arr.length)];
-}
 
-type Node = {
-  board: Board;
-  toMove: "X" | "O";
-  parent?: Node;
-  moveFromParent: number | null;
-  children: Map<number, Node>;
-  untried: number[];
-  N: number;    // visits
-  W: number;    // total reward from root player's perspective
-  wins: number;
-  draws: number;
-  losses: number;
-  terminal: Outcome | null;
-};
 
-function makeNode(board: Board, toMove: "X" | "O", parent?: Node, moveFromParent: number | null = null): Node {
-  return {
-    board,
-    toMove,
-    parent,
-    moveFromParent,
-    children: new Map(),
-    untried: legalMoves(board),
-    N: 0,
-    W: 0,
-    wins: 0,
-    draws: 0,
-    losses: 0,
-    terminal: checkWinner(board),
-  };
-}
-
-function uctValue(parentN: number, child: Node, C: number) {
-  const q = child.N > 0 ? child.W / child.N : 0;
-  const u = C * Math.sqrt(Math.log(parentN + 1) / (child.N + 1));
-  return q + u;
-}
-
-function select(node: Node, C: number, rand: RNG): Node {
-  while (node.terminal === null && node.untried.length === 0 && node.children.size > 0) {
-    let best: Node | null = null;
-    let bestVal = -Infinity;
-    for (const child of node.children.values()) {
-      const val = uctValue(node.N, child, C);
-      if (val > bestVal || (Math.abs(val - bestVal) < 1e-12 && rand() < 0.5)) {
-        bestVal = val;
-        best = child;
-      }
-    }
-    node = best!;
-  }
-  return node;
-}
-
-function expand(node: Node, rand: RNG): Node {
-  if (node.terminal !== null || node.untried.length === 0) return node;
-  const m = randChoice(node.untried, rand);
-  node.untried = node.untried.filter((x) => x !== m);
-  const b2 = node.board.slice();
-  b2[m] = node.toMove;
-  const child = makeNode(b2, node.toMove === "X" ? "O" : "X", node, m);
-  node.children.set(m, child);
-  return child;
-}
-
-function rewardFrom(outcome: Outcome, rootPlayer: "X" | "O") {
-  if (outcome === "D") return 0.5;
-  return outcome === rootPlayer ? 1 : 0;
-}
-
-function backprop(node: Node, outcome: Outcome, rootPlayer: "X" | "O") {
-  let cur: Node | undefined = node;
-  const r = rewardFrom(outcome, rootPlayer);
-  while (cur) {
-    cur.N += 1;
-    cur.W += r;
-    if (outcome === "D") cur.draws += 1;
-    else if (outcome === rootPlayer) cur.wins += 1;
-    else cur.losses += 1;
-    cur = cur.parent;
-  }
-}
-
-function rolloutWithTrace(board: Board, playerToMove: "X" | "O", rand: RNG) {
-  const b = board.slice();
-  let p = playerToMove;
-  const trace: Array<{ idx: number; player: "X" | "O" }> = [];
-  let winner = checkWinner(b);
-  while (!winner) {
-    const moves = legalMoves(b);
-    if (moves.length === 0) return { outcome: "D" as Outcome, trace, final: b };
-    const m = randChoice(moves, rand);
-    b[m] = p;
-    trace.push({ idx: m, player: p });
-    p = p === "X" ? "O" : "X";
-    winner = checkWinner(b);
-  }
-  return { outcome: winner, trace, final: b };
-}
-
-
-
-// presets
-const PRESETS: { key: string; name: string; board: Board; note: string }[] = [
-  { key: "empty", name: "Empty board", board: [null, null, null, null, null, null, null, null, null], note: "Start position." },
-  { key: "midgame1", name: "Midgame (X to move)", board: ["X", "O", null, null, "X", null, "O", null, null], note: "Explore C." },
-  { key: "endgame1", name: "Near endgame (X to move)", board: ["X", "O", "X", "O", "X", null, null, "O", null], note: "Small action set." },
-  { key: "mustblock_pure", name: "Must block (X to move)", board: ["O", "O", null, null, "X", null, null, "X", null], note: "Block at (1,3)." },
-];
+// one played move in "Play vs MCTS"
+type HistoryEntry = {
+  player: Player;
+  move: number;
+  byAgent: boolean;
+  boardBefore: Board;
+  thought: number;     // iterations the agent ran for this move
+  inherited: number;   // visits already in the promoted subtree
+};
 
 
 
@@ -181,6 +96,8 @@ function CellView({
   heat,
   count,
   ghost,
+  ghostRule,
+  small,
 }: {
   value: Cell;
   onClick?: () => void;
@@ -189,7 +106,9 @@ function CellView({
   exp?: boolean;
   heat?: number;
   count?: number;
-  ghost?: "X" | "O" | null;
+  ghost?: Player | null;
+  ghostRule?: RolloutRule | null;
+  small?: boolean;   // m,n,k boards larger than 3x3
 }) {
   const clamped = Math.max(0, Math.min(1, heat ?? 0));
   const alpha = clamped * 0.6;
@@ -199,7 +118,8 @@ function CellView({
     <button
       onClick={onClick}
       className={classNames(
-        "relative aspect-square w-20 sm:w-24 md:w-28 grid place-items-center text-2xl font-semibold rounded-2xl",
+        "relative aspect-square grid place-items-center font-semibold rounded-2xl",
+        small ? "w-14 sm:w-16 md:w-20 text-xl" : "w-20 sm:w-24 md:w-28 text-2xl",
         "border border-gray-300 hover:shadow-md transition",
         isBest ? "ring-4 ring-violet-600 shadow-lg" : "",
         sel ? "ring-4 ring-sky-500" : "",
@@ -220,6 +140,10 @@ function CellView({
       {isBest && <div className="absolute top-1 right-2 text-[11px] font-semibold text-white bg-violet-600 px-1.5 py-0.5 rounded-md">Best</div>}
       {/* simulation ghost */}
       {ghost && value === null && <span className="absolute text-2xl sm:text-3xl font-bold text-slate-400/60">{ghost}</span>}
+      {/* which rollout rule placed the ghost */}
+      {ghost && ghostRule && value === null && (
+        <div className="absolute bottom-1.5 text-[10px] font-semibold text-slate-600 bg-white/80 px-1 rounded">{ghostRule}</div>
+      )}
 
       <span className="relative z-10">{value ?? ""}</span>
     </button>
@@ -228,38 +152,166 @@ function CellView({
 
 
 
+// settings from a permalink; anything missing or malformed falls back to the defaults
+function readLinkedSettings() {
+  const params = readParams();
+  const width = Math.round(numberParam(params, "w", 3, MAX_SIDE) ?? 3);
+  const height = Math.round(numberParam(params, "h", 3, MAX_SIDE) ?? 3);
+  const spec: BoardSpec = { width, height, k: Math.round(numberParam(params, "k", 3, Math.max(width, height)) ?? 3) };
+  const presets = presetsFor(spec);
+  const preset = choiceParam(params, "preset", presets.map((p) => p.key));
+  const parsed = params.has("board") ? parsePosition(params.get("board")!, spec) : null;
+  return {
+    spec,
+    preset,
+    board: parsed?.ok ? parsed.board : presets.find((p) => p.key === (preset ?? presets[0].key))!.board,
+    seed: numberParam(params, "seed", -2147483648, 4294967295),
+    C: numberParam(params, "C", 0, 10),
+    iters: numberParam(params, "iters", 10, 5000),
+    fresh: boolParam(params, "fresh"),
+    animate: choiceParam(params, "animate", ["1", "5", "10", "last"]),
+    policy: choiceParam(params, "policy", Object.keys(POLICY_NAMES) as SelectionPolicy["kind"][]),
+    ucbvC: numberParam(params, "vc", 0, 10),
+    priors: choiceParam(params, "priors", ["uniform", "game"] as const),
+    epsilon: numberParam(params, "eps", 0, 1),
+    betaAlpha: numberParam(params, "ba", 0.01, 100),
+    betaBeta: numberParam(params, "bb", 0.01, 100),
+    backup: choiceParam(params, "backup", ["negamax", "root"] as const),
+    rollout: choiceParam(params, "rollout", Object.keys(ROLLOUT_NAMES) as RolloutPolicy[]),
+    rule: choiceParam(params, "rule", Object.keys(FINAL_RULE_NAMES) as FinalMoveRule[]),
+    secureA: numberParam(params, "A", 0, 100),
+    transpositions: boolParam(params, "dag"),
+    symmetry: boolParam(params, "sym"),
+    first: choiceParam(params, "first", ["X", "O"] as const),
+  };
+}
+
 // components
 export default function MonteCarloTicTacToePart2() {
-  const [presetKey, setPresetKey] = useState(PRESETS[0].key);
-  const [board, setBoard] = useState<Board>(PRESETS[0].board);
-
-  const [C, setC] = useState<number>(1);
-  const [itersPerRun, setItersPerRun] = useState<number>(50);
+  const [linked] = useState(readLinkedSettings);
+  const [spec, setSpec] = useState<BoardSpec>(linked.spec);   // board width, height and win length
+  const presets = presetsFor(spec);
+  const coord = (i: number) => indexToCoord(i, spec);
+  const [presetKey, setPresetKey] = useState(linked.preset ?? presets[0].key);
+  const [board, setBoard] = useState<Board>(linked.board);
+  const [first, setFirst] = useState<Player>(linked.first ?? "X");   // who opened the game; presets are all X, the editor can pick O
+
+  const [C, setC] = useState<number>(linked.C ?? 1);
+
+  // tree policy and the parameters only some policies use
+  const [policyKind, setPolicyKind] = useState<SelectionPolicy["kind"]>(linked.policy ?? "ucb1");
+  const [ucbvC, setUcbvC] = useState<number>(linked.ucbvC ?? 1);
+  const [puctPriors, setPuctPriors] = useState<"uniform" | "game">(linked.priors ?? "game");
+  const [epsilon, setEpsilon] = useState<number>(linked.epsilon ?? 0.1);
+  const [betaAlpha, setBetaAlpha] = useState<number>(linked.betaAlpha ?? 1);
+  const [betaBeta, setBetaBeta] = useState<number>(linked.betaBeta ?? 1);
+  const policy: SelectionPolicy = useMemo(() => {
+    switch (policyKind) {
+      case "ucb1":
+      case "ucb1-tuned":
+        return { kind: policyKind, C };
+      case "ucb-v":
+        return { kind: "ucb-v", C, c: ucbvC };
+      case "puct":
+        return { kind: "puct", C, priors: puctPriors };
+      case "epsilon-greedy":
+        return { kind: "epsilon-greedy", epsilon };
+      case "thompson":
+        return { kind: "thompson", alpha: betaAlpha, beta: betaBeta };
+    }
+  }, [policyKind, C, ucbvC, puctPriors, epsilon, betaAlpha, betaBeta]);
+  const usesC = policyKind !== "epsilon-greedy" && policyKind !== "thompson";
+  const [itersPerRun, setItersPerRun] = useState<number>(linked.iters ?? 50);
 
-  const [seed, setSeed] = useState<number>(42);
+  const [seed, setSeed] = useState<number>(linked.seed ?? 42);
   const rngRef = useRef<RNG>(createMulberry32(seed));
   const reseedRng = (s: number) => { rngRef.current = createMulberry32(s >>> 0); };
 
-  const [freshEachRun, setFreshEachRun] = useState<boolean>(true);
-
-  const [root, setRoot] = useState<Node>(() => makeNode(PRESETS[0].board, nextPlayer(PRESETS[0].board)));
+  const [freshEachRun, setFreshEachRun] = useState<boolean>(linked.fresh ?? true);
+
+  const [playMode, setPlayMode] = useState(false);
+  const [humanSide, setHumanSide] = useState<Player>("X");
+  const [agentIters, setAgentIters] = useState<number>(500);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [backupMode, setBackupMode] = useState<BackupMode>(linked.backup ?? "negamax");
+  const [transpositions, setTranspositions] = useState(linked.transpositions ?? false);   // share nodes between move orders (search a DAG)
+  const [symmetry, setSymmetry] = useState(linked.symmetry ?? false);   // expand one child per symmetry class
+  const game = mnkGame(spec, symmetry, first);
+  const [rolloutPolicy, setRolloutPolicy] = useState<RolloutPolicy>(linked.rollout ?? "random");
+  const [finalRule, setFinalRule] = useState<FinalMoveRule>(linked.rule ?? "max-visits");
+  const [secureA, setSecureA] = useState<number>(linked.secureA ?? 1);
+  const [checkInvariants, setCheckInvariants] = useState(false);   // debug: validate the tree after every iteration
+  const [violation, setViolation] = useState<Violation | null>(null);
+
+  const [root, setRoot] = useState<TreeNode>(() => makeNode(game, linked.board));
+  // the root kept the visit from when it was expanded as a child: promoted in Play vs MCTS, or loaded from a file
+  const [rootPromoted, setRootPromoted] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
   const [paused, setPaused] = useState(false);
 
-  const currentPlayer = useMemo(() => nextPlayer(board), [board]);
-  const terminal = useMemo(() => checkWinner(board), [board]);
+  const currentPlayer = useMemo(() => nextPlayer(board, first), [board, first]);
+  const terminal = useMemo(() => checkWinner(board, spec), [board, spec]);
 
   const [totalIters, setTotalIters] = useState<number>(0);
 
   // phase visualization
   type Phase = "idle" | "selection" | "expansion" | "simulation" | "backprop";
+  type Descent = { steps: SelectionStep<Board, number>[]; leaf: Board; expanded: number | null };
   const [phase, setPhase] = useState<Phase>("idle");
   const [selRootMove, setSelRootMove] = useState<number | null>(null);
   const [expRootMove, setExpRootMove] = useState<number | null>(null);
-  const [simOverlay, setSimOverlay] = useState<Board>([null, null, null, null, null, null, null, null, null]);
+  const [simOverlay, setSimOverlay] = useState<Board>(() => emptyBoard(spec));
+  const [simRules, setSimRules] = useState<Array<RolloutRule | null>>(() => new Array(board.length).fill(null));
+  const [descent, setDescent] = useState<Descent | null>(null);   // full selection path of the animated iteration
+  const [lastPath, setLastPath] = useState<number[] | null>(null);   // moves taken by the latest iteration
+  const [series, setSeries] = useState<ConvergenceSeries>(emptySeries);   // root-child history for the charts
+  const [log, setLog] = useState<IterationLog>([]);   // recent iterations, newest last
+  const [scrub, setScrub] = useState<Scrub | null>(null);   // replaying log[scrub.index] instead of showing the live tree
 
   // animate every k-th iteration selector
-  const [animateEvery, setAnimateEvery] = useState<string>("10");   // "1", "5", "10", "last"
+  const [animateEvery, setAnimateEvery] = useState<string>(linked.animate ?? "10");   // "1", "5", "10", "last"
+
+  // keep the URL in step with the controls so the address bar is always a permalink
+  useEffect(() => {
+    writeParams({
+      preset: presetKey,
+      w: spec.width,
+      h: spec.height,
+      k: spec.k,
+      board: formatPosition(board, spec).split(" ")[0],
+      seed,
+      C,
+      iters: itersPerRun,
+      fresh: freshEachRun,
+      animate: animateEvery,
+      policy: policyKind,
+      vc: ucbvC,
+      priors: puctPriors,
+      eps: epsilon,
+      ba: betaAlpha,
+      bb: betaBeta,
+      backup: backupMode,
+      rollout: rolloutPolicy,
+      rule: finalRule,
+      A: secureA,
+      dag: transpositions,
+      sym: symmetry,
+      first,
+    });
+  }, [
+    presetKey, spec, board, seed, C, itersPerRun, freshEachRun, animateEvery, policyKind, ucbvC, puctPriors, epsilon,
+    betaAlpha, betaBeta, backupMode, rolloutPolicy, finalRule, secureA, transpositions, symmetry, first,
+  ]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1200);
+    } catch {
+      setLinkCopied(false);
+    }
+  };
 
   // layout syncing
   const leftPanelRef = useRef<HTMLDivElement>(null);
@@ -271,8 +323,23 @@ export default function MonteCarloTicTacToePart2() {
     return () => window.removeEventListener("resize", measure);
   }, [board, root, C, itersPerRun, terminal, phase]);
 
+  // batch searches run in a worker; live holds its latest snapshot while one is in flight
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+  const [live, setLive] = useState<SearchSnapshot | null>(null);
+  useEffect(() => {
+    const worker = new Worker(new URL("./uctWorker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+  const postToWorker = (msg: WorkerRequest) => workerRef.current?.postMessage(msg);
+
   // pause/cancel token
   const runTokenRef = useRef<{ paused: boolean; cancelled: boolean }>({ paused: false, cancelled: false });
+  const runPromotedRef = useRef(false);   // rootPromoted for the tree the current main-thread run grows
 
   // pause that keeps track of sleep time (returns false if cancelled)
   const pauseStepMs = 60;
@@ -294,28 +361,58 @@ export default function MonteCarloTicTacToePart2() {
     return !runTokenRef.current.cancelled;
   }
 
-  const clearVisuals = () => {
+  // sized by cell count, since a shape change clears before the new spec is in state
+  const clearVisuals = (cells = board.length) => {
     setPhase("idle");
     setSelRootMove(null);
     setExpRootMove(null);
-    setSimOverlay([null, null, null, null, null, null, null, null, null]);
+    setSimOverlay(new Array<Cell>(cells).fill(null));
+    setSimRules(new Array(cells).fill(null));
+    setDescent(null);
   };
 
-  const resetTreeToBoard = (b: Board) => {
-    setRoot(makeNode(b, nextPlayer(b)));
+  const resetTreeToBoard = (b: Board, g = game) => {
+    setRoot(makeNode(g, b));
+    setRootPromoted(false);
+    setLastPath(null);
+    setSeries(emptySeries());
+    setLog([]);
+    setScrub(null);
     setTotalIters(0);
-    clearVisuals();
+    clearVisuals(b.length);
+  };
+
+  // a new shape starts over from its empty board
+  const changeShape = (next: BoardSpec) => {
+    const b = emptyBoard(next);
+    setSpec(next);
+    setPresetKey("empty");
+    setBoard(b);
+    setFirst("X");
+    setViolation(null);
+    resetTreeToBoard(b, mnkGame(next, symmetry));
   };
 
   const handlePreset = (key: string) => {
-    const p = PRESETS.find((x) => x.key === key)!;
+    const p = presets.find((x) => x.key === key)!;
     setPresetKey(key);
+    if (playMode) {
+      if (!isRunning) newGame(key, humanSide);
+      return;
+    }
     setBoard(p.board.slice());
-    resetTreeToBoard(p.board.slice());
+    setFirst("X");
+    resetTreeToBoard(p.board.slice(), mnkGame(spec, symmetry));
   };
 
   const placeMark = (i: number) => {
     if (terminal || board[i]) return;
+    if (playMode) {
+      if (isRunning || currentPlayer !== humanSide) return;
+      const next = commitMove(board, root, i, false, 0);
+      if (next.terminal === null) void agentTurn(next.state, next, history.length + 1);
+      return;
+    }
     const b2 = board.slice();
     b2[i] = currentPlayer;
     setBoard(b2);
@@ -327,68 +424,90 @@ export default function MonteCarloTicTacToePart2() {
     if (isRunning) {
       runTokenRef.current.cancelled = true;
       runTokenRef.current.paused = false;
+      runIdRef.current++;   // drop whatever the worker sends back
+      postToWorker({ type: "cancel" });
       setPaused(false);
       setIsRunning(false);
     }
-    const p = PRESETS.find((x) => x.key === presetKey)!;
+    if (playMode) {
+      newGame(presetKey, humanSide);
+      return;
+    }
+    const p = presets.find((x) => x.key === presetKey)!;
     setBoard(p.board.slice());
-    resetTreeToBoard(p.board.slice());
+    setFirst("X");
+    resetTreeToBoard(p.board.slice(), mnkGame(spec, symmetry));
   };
 
   const PAUSE = 450;
   const SIM_STEP_MS = 120;
 
+  // positions already in the tree, when transpositions are on
+  const tableFor = (r: TreeNode): TranspositionTable<Board, number> | undefined =>
+    transpositions ? buildTable(r, boardKey) : undefined;
+
+  // debug mode: a broken invariant is reported and stops the run after this iteration
+  function verify(workRoot: TreeNode) {
+    if (!checkInvariants) return;
+    const v = checkTree(workRoot, transpositions, spec, runPromotedRef.current);
+    if (!v) return;
+    setViolation(v);
+    runTokenRef.current.cancelled = true;
+  }
+
   // handling each iteration
-  async function oneIterationViz(workRoot: Node): Promise<{ root: Node; ok: boolean }> {
+  async function oneIterationViz(
+    workRoot: TreeNode,
+    workSeries: ConvergenceSeries,
+    workLog: IterationLog,
+    table?: TranspositionTable<Board, number>
+  ): Promise<{ root: TreeNode; ok: boolean }> {
     setSelRootMove(null);
     setExpRootMove(null);
-    setSimOverlay([null, null, null, null, null, null, null, null, null]);
+    setSimOverlay(emptyBoard(spec));
+    setSimRules(new Array(board.length).fill(null));
+    setDescent(null);
 
     // selection
     setPhase("selection");
-    let node: Node = workRoot;
-    let chosenRootMove: number | null = null;
-    while (node.terminal === null && node.untried.length === 0 && node.children.size > 0) {
+    let node: TreeNode = workRoot;
+    const path = [workRoot];
+    while (isFullyExpanded(node)) {
       if (!(await waitIfPaused())) return { root: workRoot, ok: false };
-      let best: Node | null = null;
-      let bestVal = -Infinity;
-      for (const child of node.children.values()) {
-        const val = uctValue(node.N, child, C);
-        if (val > bestVal || (Math.abs(val - bestVal) < 1e-12 && rngRef.current() < 0.5)) {
-          bestVal = val;
-          best = child;
-        }
-      }
-      node = best!;
-      if (node.parent === workRoot && node.moveFromParent !== null) chosenRootMove = node.moveFromParent;
+      node = selectChild(node, policy, rngRef.current);
+      path.push(node);
     }
-    if (chosenRootMove !== null) setSelRootMove(chosenRootMove);
+    if (path.length > 1) setSelRootMove(movesAlong(path)[0]);
+    const { steps } = selectionSteps(workRoot, movesAlong(path), policy);
+    setDescent({ steps, leaf: node.state, expanded: null });
     if (!(await pauseAwareSleep(PAUSE))) return { root: workRoot, ok: false };
 
     // expansion
     setPhase("expansion");
-    if (node.terminal === null && node.untried.length > 0) {
-      const m = randChoice(node.untried, rngRef.current);
-      node.untried = node.untried.filter((x) => x !== m);
-      const b2 = node.board.slice();
-      b2[m] = node.toMove;
-      const child = makeNode(b2, node.toMove === "X" ? "O" : "X", node, m);
-      node.children.set(m, child);
-      node = child;
-      if (node.parent === workRoot && node.moveFromParent !== null) setExpRootMove(node.moveFromParent);
+    const expanded = node.terminal === null && node.untried.length > 0;
+    if (expanded) {
+      node = expand(game, node, rngRef.current, table);
+      path.push(node);
+      if (path.length === 2) setExpRootMove(movesAlong(path)[0]);
+      const added = movesAlong(path.slice(-2))[0];
+      setDescent((d) => d && { ...d, expanded: added });
     }
+    setLastPath(movesAlong(path));
     if (!(await pauseAwareSleep(PAUSE))) return { root: workRoot, ok: false };
 
     // simulation
     setPhase("simulation");
-    const { outcome, trace } = rolloutWithTrace(node.board, node.toMove, rngRef.current);
-    const overlay = [null, null, null, null, null, null, null, null, null] as Board;
+    const { outcome, trace } = rollout(game, node.state, rngRef.current, rolloutPolicy);
+    const overlay = emptyBoard(spec);
+    const rules = new Array<RolloutRule | null>(board.length).fill(null);
     for (const step of trace) {
       if (!(await waitIfPaused())) return { root: workRoot, ok: false };
       if (runTokenRef.current.cancelled) return { root: workRoot, ok: false };
-      if (board[step.idx] === null) {
-        overlay[step.idx] = step.player;
+      if (board[step.move] === null) {
+        overlay[step.move] = step.player;
+        rules[step.move] = step.rule;
         setSimOverlay(overlay.slice());
+        setSimRules(rules.slice());
         if (!(await pauseAwareSleep(SIM_STEP_MS))) return { root: workRoot, ok: false };
       }
     }
@@ -396,9 +515,14 @@ export default function MonteCarloTicTacToePart2() {
 
     // backpropagation
     setPhase("backprop");
-    backprop(node, outcome, nextPlayer(board));
+    const rewards = backpropPath(path, outcome, workRoot.toMove, backupMode);
+    recordPoint(workSeries, workRoot, policy, finalRule, secureA);
+    appendRecord(workLog, { path: movesAlong(path), expanded, trace, outcome, rewards });
     setRoot({ ...workRoot });
-    if (!(await pauseAwareSleep(PAUSE))) return { root: workRoot, ok: false };
+    setSeries(cloneSeries(workSeries));
+    setLog(latest(workLog));
+    verify(workRoot);
+    if (!(await pauseAwareSleep(PAUSE))) return { root: workRoot, ok: true };
 
     // clear
     clearVisuals();
@@ -406,17 +530,25 @@ export default function MonteCarloTicTacToePart2() {
   }
 
   // single iteration option handler
-  function oneIterationFast(workRoot: Node): Node {
-    let node = select(workRoot, C, rngRef.current);
-    if (node.terminal === null && node.untried.length > 0) node = expand(node, rngRef.current);
-    const { outcome } = rolloutWithTrace(node.board, node.toMove, rngRef.current);
-    backprop(node, outcome, nextPlayer(board));
+  function oneIterationFast(
+    workRoot: TreeNode,
+    workSeries: ConvergenceSeries,
+    workLog: IterationLog,
+    table?: TranspositionTable<Board, number>
+  ): TreeNode {
+    const rec = runIteration(game, workRoot, policy, rngRef.current, backupMode, rolloutPolicy, table);
+    setLastPath(rec.path);
+    recordPoint(workSeries, workRoot, policy, finalRule, secureA);
+    appendRecord(workLog, rec);
+    verify(workRoot);
     return workRoot;
   }
 
   // control helpers
   function startRun() {
     runTokenRef.current = { paused: false, cancelled: false };
+    setScrub(null);
+    setViolation(null);
     setPaused(false);
     setIsRunning(true);
   }
@@ -430,6 +562,7 @@ export default function MonteCarloTicTacToePart2() {
     if (!isRunning) return;
     const next = !paused;
     runTokenRef.current.paused = next;
+    postToWorker({ type: next ? "pause" : "resume" });
     setPaused(next);
   };
 
@@ -437,6 +570,7 @@ export default function MonteCarloTicTacToePart2() {
     if (!isRunning) return;
     runTokenRef.current.cancelled = true;
     runTokenRef.current.paused = false;   // in case it was paused
+    postToWorker({ type: "cancel" });   // the worker still reports what it finished
     setPaused(false);
     clearVisuals();
     setIsRunning(false);
@@ -447,53 +581,180 @@ export default function MonteCarloTicTacToePart2() {
     if (terminal || isRunning) return;
     startRun();
     reseedRng(seed);
+    runPromotedRef.current = rootPromoted;
     try {
-      const { ok } = await oneIterationViz(root);
+      const { ok } = await oneIterationViz(root, cloneSeries(series), log.slice(), tableFor(root));
       if (ok) setTotalIters((t) => t + 1);
     } finally {
       endRun();
     }
   };
 
-  // run batch (no animation)
-  const runBatch = async (iters: number) => {
-    if (terminal || isRunning) return;
+  // one search in the worker; resolves to null if a reset superseded it
+  const searchInWorker = async (
+    startBoard: Board,
+    startRoot: TreeNode | null,
+    iters: number,
+    runSeed: number,
+    startSeries: ConvergenceSeries | null,
+    promoted: boolean
+  ) => {
+    const worker = workerRef.current!;
     startRun();
-    reseedRng(seed);
+    const runId = ++runIdRef.current;
     try {
-      let done = 0;
-      for (let i = 0; i < iters; i++) {
-        if (runTokenRef.current.cancelled) break;
-        if (!(await waitIfPaused())) break;
-        oneIterationFast(root);
-        done++;
-      }
-      setRoot({ ...root });
-      setTotalIters((t) => t + done);
+      const result = await new Promise<Extract<WorkerResponse, { type: "done" }>>((resolve) => {
+        const onMessage = (e: MessageEvent<WorkerResponse>) => {
+          const msg = e.data;
+          if (msg.runId !== runId) return;
+          if (msg.type === "progress") {
+            setLive(msg.snapshot);
+          } else {
+            worker.removeEventListener("message", onMessage);
+            resolve(msg);
+          }
+        };
+        worker.addEventListener("message", onMessage);
+        postToWorker({
+          type: "start",
+          runId,
+          board: startBoard,
+          spec,
+          root: startRoot,
+          iters,
+          policy,
+          seed: runSeed,
+          backupMode,
+          rolloutPolicy,
+          transpositions,
+          symmetry,
+          series: startSeries,
+          finalRule,
+          secureA,
+          checkInvariants,
+          promoted,
+          // a root passed in may be older than `first` (a new game starts its search before the state updates)
+          first: startRoot ? firstMover(startRoot.state, startRoot.toMove) : first,
+        });
+      });
+      if (runId !== runIdRef.current) return null;
+      setViolation(result.violation);
+      return result;
     } finally {
-      endRun();
+      setLive(null);
+      if (runId === runIdRef.current) endRun();
     }
   };
 
-  // run batch fresh (no animation)
-  const runBatchFresh = async (iters: number) => {
-    if (terminal || isRunning) return;
-    startRun();
-    reseedRng(seed);
-    try {
-      const freshRoot = makeNode(board.slice(), nextPlayer(board));
-      let done = 0;
-      for (let i = 0; i < iters; i++) {
-        if (runTokenRef.current.cancelled) { setRoot(freshRoot); break; }
-        if (!(await waitIfPaused())) { setRoot(freshRoot); break; }
-        oneIterationFast(freshRoot);
-        done++;
-      }
-      setRoot(freshRoot);
-      setTotalIters((t) => t + done);
-    } finally {
-      endRun();
+  // run batch in the worker (no animation); fresh = start from an empty tree
+  const runBatch = async (iters: number, fresh: boolean) => {
+    if (terminal || isRunning || !workerRef.current) return;
+    const result = await searchInWorker(board.slice(), fresh ? null : root, iters, seed, fresh ? null : series, !fresh && rootPromoted);
+    if (result) {
+      setRoot(result.root);
+      if (fresh) setRootPromoted(false);
+      setLastPath(result.lastPath);
+      setSeries(result.series);
+      setLog(fresh ? result.log : latest([...log, ...result.log]));
+      setTotalIters((t) => t + result.iterations);
+    }
+  };
+
+  // play vs MCTS: commit a move and promote its subtree so the search effort carries over
+  const commitMove = (b: Board, r: TreeNode, move: number, byAgent: boolean, thought: number) => {
+    const next = promoteChild(game, r, move, backupMode);
+    const entry: HistoryEntry = { player: r.toMove, move, byAgent, boardBefore: b, thought, inherited: next.N };
+    setHistory((h) => [...h, entry]);
+    setBoard(next.state);
+    setRoot(next);
+    setRootPromoted(true);
+    setLastPath(null);
+    setSeries(emptySeries());
+    setLog([]);
+    setScrub(null);
+    setTotalIters(next.N);
+    clearVisuals();
+    return next;
+  };
+
+  const agentTurn = async (b: Board, r: TreeNode, ply: number) => {
+    if (!workerRef.current) return;
+    // only the opening search of a game starts from a fresh root; every later one from a promoted child
+    const result = await searchInWorker(b, r, agentIters, seed + ply, null, ply > 0);
+    if (!result) return;
+    // robust-max may have no leader yet; the agent still has to move
+    const move = chooseMove(childStats(result.root), finalRule, secureA) ?? bestChildMoveOf(result.root);
+    if (move === null) {
+      setRoot(result.root);
+      return;
     }
+    commitMove(b, result.root, move, true, result.iterations);
+  };
+
+  const newGame = (key: string, side: Player) => {
+    const b = presets.find((x) => x.key === key)!.board.slice();
+    const r = makeNode(mnkGame(spec, symmetry), b);
+    setBoard(b);
+    setFirst("X");
+    setRoot(r);
+    setRootPromoted(false);
+    setLastPath(null);
+    setSeries(emptySeries());
+    setLog([]);
+    setScrub(null);
+    setTotalIters(0);
+    clearVisuals();
+    setHistory([]);
+    if (r.terminal === null && r.toMove !== side) void agentTurn(b, r, 0);
+  };
+
+  const togglePlayMode = (on: boolean) => {
+    if (isRunning) return;
+    setPlayMode(on);
+    if (on) newGame(presetKey, humanSide);
+    else {
+      setHistory([]);
+      resetTreeToBoard(board);
+    }
+  };
+
+  const chooseSide = (side: Player) => {
+    if (isRunning) return;
+    setHumanSide(side);
+    newGame(presetKey, side);
+  };
+
+  // continue from a tree saved with the export panel
+  const importTree = (r: TreeNode, mode: BackupMode, s: BoardSpec, flags: TreeFlags) => {
+    if (specKey(s) !== specKey(spec)) {
+      setSpec(s);
+      setPresetKey("empty");
+    }
+    setBoard(r.state);
+    setFirst(firstMover(r.state, r.toMove));
+    setRoot(r);
+    setRootPromoted(true);   // the file does not say, so allow for it
+    setBackupMode(mode);
+    setSymmetry(flags.symmetry);
+    setTranspositions(flags.transpositions);
+    setLastPath(null);
+    setSeries(emptySeries());
+    setLog([]);
+    setScrub(null);
+    setTotalIters(r.N);
+    clearVisuals(r.state.length);
+  };
+
+  // take back the last human move (and the agent reply after it); the tree starts over
+  const undo = () => {
+    if (isRunning) return;
+    let i = history.length - 1;
+    while (i >= 0 && history[i].byAgent) i--;
+    if (i < 0) return;
+    const b = history[i].boardBefore;
+    setHistory(history.slice(0, i));
+    setBoard(b);
+    resetTreeToBoard(b);
   };
 
   // step N iters (animated periodically)
@@ -505,7 +766,12 @@ export default function MonteCarloTicTacToePart2() {
     const animateEveryN =
       animateEvery === "last" ? Number.POSITIVE_INFINITY : Math.max(1, parseInt(animateEvery || "10", 10));
 
-    let workRoot = freshEachRun ? makeNode(board.slice(), nextPlayer(board)) : root;
+    let workRoot = freshEachRun ? makeNode(game, board.slice()) : root;
+    runPromotedRef.current = !freshEachRun && rootPromoted;
+    if (freshEachRun) setRootPromoted(false);
+    const workSeries = freshEachRun ? emptySeries() : cloneSeries(series);
+    const workLog = freshEachRun ? [] : log.slice();
+    const table = tableFor(workRoot);
 
     try {
       let done = 0;
@@ -515,41 +781,89 @@ export default function MonteCarloTicTacToePart2() {
 
         const shouldAnimate = i === 1 || i === itersPerRun || (i % animateEveryN === 0);
         if (shouldAnimate) {
-          const { ok } = await oneIterationViz(workRoot);
+          const { ok } = await oneIterationViz(workRoot, workSeries, workLog, table);
           if (!ok) break;
           done++;
         } else {
-          workRoot = oneIterationFast(workRoot);
+          workRoot = oneIterationFast(workRoot, workSeries, workLog, table);
           done++;
-          if (i % 20 === 0 || i === itersPerRun) setRoot({ ...workRoot });
+          if (i % 20 === 0 || i === itersPerRun) {
+            setRoot({ ...workRoot });
+            setSeries(cloneSeries(workSeries));
+            setLog(latest(workLog));
+          }
         }
       }
       setRoot(workRoot === root ? { ...root } : workRoot);
+      setSeries(cloneSeries(workSeries));
+      setLog(latest(workLog));
       setTotalIters((t) => t + done);
     } finally {
       endRun();
     }
   };
 
-  const bestChildMove: number | null = useMemo(() => {
-    if (root.children.size === 0) return null;
-    let best: number | null = null;
-    let bestN = -1;
-    for (const [m, ch] of root.children.entries()) {
-      if (ch.N > bestN) {
-        bestN = ch.N;
-        best = m;
+  // while replaying, the tree as it stood at that point: before the iteration, or after it once backprop is shown
+  const replay = scrub ? log[scrub.index] : null;
+  const scrubIndex = scrub?.index ?? null;
+  const before = useMemo(
+    () => (scrubIndex === null ? null : rewindTree(root, log, log.length - scrubIndex, backupMode)),
+    [scrubIndex, log, root, backupMode]
+  );
+  const shownRoot = useMemo(() => {
+    if (!scrub || !before) return root;
+    return scrub.phase === "backprop" ? rewindTree(root, log, log.length - scrub.index - 1, backupMode) : before;
+  }, [scrub, before, log, root, backupMode]);
+
+  // the phase overlays on the board, from the running animation or from the replayed record
+  const shown = useMemo(() => {
+    if (!scrub || !replay || !before) return { phase, selRootMove, expRootMove, simOverlay, simRules, descent };
+    const at = ["selection", "expansion", "simulation", "backprop"].indexOf(scrub.phase);
+    const selPath = replay.expanded ? replay.path.slice(0, -1) : replay.path;
+    const walked = selectionSteps(before, selPath, policy);
+    const overlay = emptyBoard(spec);
+    const rules = new Array<RolloutRule | null>(board.length).fill(null);
+    if (at >= 2) {
+      for (const st of replay.trace) {
+        if (board[st.move] !== null) continue;
+        overlay[st.move] = st.player;
+        rules[st.move] = st.rule;
       }
     }
-    return best;
-  }, [root]);
-
-  const preset = PRESETS.find((p) => p.key === presetKey)!;
+    return {
+      phase: scrub.phase,
+      selRootMove: selPath[0] ?? null,
+      expRootMove: at >= 1 && replay.expanded && replay.path.length === 1 ? replay.path[0] : null,
+      simOverlay: overlay,
+      simRules: rules,
+      descent: {
+        steps: walked.steps,
+        leaf: walked.leaf.state,
+        expanded: at >= 1 && replay.expanded ? replay.path[replay.path.length - 1] : null,
+      },
+    };
+  }, [scrub, replay, before, board, spec, policy, phase, selRootMove, expRootMove, simOverlay, simRules, descent]);
+
+  // root-child numbers shown in the heatmap and stats, live from the worker during a batch run
+  const rootStats = useMemo(() => live?.children ?? childStats(shownRoot), [live, shownRoot]);
+  const statsByMove = useMemo(() => new Map(rootStats.map((st) => [st.move, st])), [rootStats]);
+
+  // symmetric cells show their representative's numbers
+  const reps = useMemo(() => (symmetry ? representativeOf(board, spec) : null), [symmetry, board, spec]);
+  const repOf = (m: number) => reps?.get(m) ?? m;
+  const classSize = (m: number) => (reps ? [...reps.values()].filter((r) => r === m).length : 1);
+
+  const bestChildMove: number | null = useMemo(() => chooseMove(rootStats, finalRule, secureA), [rootStats, finalRule, secureA]);
+
+  const solved = useMemo(() => solveMoves(board, spec, first), [board, spec, first]);
+  const mistake = bestChildMove !== null && isMistake(solved, bestChildMove);
+
+  const preset = presets.find((p) => p.key === presetKey)!;
 
   const maxN = useMemo(() => {
-    const arr = [...root.children.values()].map((c) => c.N);
+    const arr = rootStats.map((c) => c.N);
     return arr.length ? Math.max(...arr) : 0;
-  }, [root]);
+  }, [rootStats]);
 
   return (
     <div className="w-full text-slate-800 p-4 sm:p-6 md:p-8">
@@ -562,6 +876,8 @@ export default function MonteCarloTicTacToePart2() {
             <strong>What is UCT?</strong> UCT chooses which child to explore with
             <code> UCT = Q + C·√(ln N<sub>parent</sub> / (N<sub>child</sub>+1))</code>. The first term (<code>Q</code>) rewards moves that
             performed well; the second forces exploration. Each iteration does: <em>Selection</em>, <em>Expansion</em>, <em>Simulation</em>, <em>Backpropagation</em>.
+            UCT is one choice of <em>tree policy</em>; the dropdown below swaps in others (UCB1-Tuned, UCB-V, PUCT, ε-greedy, Thompson sampling)
+            so you can compare recommendations and tree shapes on the same preset and seed.
           </p>
 
           {/* "how to use" box */}
@@ -573,8 +889,39 @@ export default function MonteCarloTicTacToePart2() {
               <li>Adjust <span className="font-medium">C</span> (0–10). Lower = exploit; higher = explore.</li>
               <li>Use <span className="font-medium">Step 1 iter</span> to watch the four phases; or
                 <span className="font-medium"> Step N iters (animated)</span> to animate periodically while doing many iterations.</li>
-              <li><span className="font-medium">Run N iters</span> builds evidence fast without animation. Green = more visits; violet ring = current best move.</li>
+              <li><span className="font-medium">Run N iters</span> builds evidence fast without animation, in a background worker so the page stays responsive. Green = more visits; violet ring = current best move.</li>
               <li>Use <span className="font-medium">Pause/Resume</span> or <span className="font-medium">Cancel</span> to stop a long run of animations.</li>
+              <li>The <span className="font-medium">Final move rule</span> decides which root child is recommended (and played by the agent);
+                the table lists what every rule would pick so you can see when they disagree.</li>
+              <li>Tick <span className="font-medium">Play vs MCTS</span> to play a full game against the agent. After every move the matching subtree becomes the new root,
+                so the game record shows how many visits each turn inherited from earlier thinking.</li>
+              <li>Switch <span className="font-medium">Backprop</span> to <em>Root perspective</em> and rerun the same preset and seed: every node is then scored for the root player,
+                so the opponent's replies are chosen to help us and the recommendation can miss a forced block.</li>
+              <li>The address bar always holds the current position and settings; <span className="font-medium">Copy link</span> shares it, and opening the link
+                restores the same board, seed and controls so everyone can reproduce the same run.</li>
+              <li><span className="font-medium">Edit position</span> sets up any reachable board by clicking cells or pasting the text notation
+                (<code>XO_/_X_/O__ x</code>: rows separated by /, then the side to move). With as many O as X, O to move means O opened the game.</li>
+              <li><span className="font-medium">Export / import</span> saves the tree as JSON (reload it later to keep searching), as Graphviz DOT for slides,
+                or the root children as CSV.</li>
+              <li>Tick <span className="font-medium">Transpositions (DAG)</span> to share one node per position: X(1,1) then X(3,3) and the reverse order
+                lead to the same board, so their statistics are pooled. The tree view counts the duplicates avoided, and <em>Tree vs DAG</em> compares both
+                searches at the same iteration budget.</li>
+              <li>Tick <span className="font-medium">Symmetry</span> to expand only one move per class of mirror-image moves at every node (on the empty board: a corner, an edge and the center).
+                The heatmap copies each representative's visits onto its mirror images.</li>
+              <li>The <span className="font-medium">Convergence</span> charts follow every root child's share of visits, Q and selection score as the search runs;
+                the dashed line marks the iteration at which the recommended move last changed.</li>
+              <li>Each root child also carries a <span className="font-medium">Solver</span> badge with its exact value under perfect play;
+                a red <em>Mistake</em> badge appears when the recommended move gives up a better result.</li>
+              <li><span className="font-medium">Replay history</span> rewinds the board, heatmap and tree to any of the last 2000 iterations;
+                step through it phase by phase to see the path taken, the node expanded, the rollout and the N/W each node gained.</li>
+              <li>Under the board, the <span className="font-medium">Selection path</span> strip draws every level the descent passed through with the scores
+                of the competing siblings, so you can see why each deeper child won; the last board marks where expansion added a node.</li>
+              <li>Tick <span className="font-medium">Check invariants</span> (debug) to validate the whole tree after every iteration: visit counts add up,
+                wins + draws + losses = N, untried moves are not already children and every child adds exactly one mark. The first violation stops the run
+                and is shown with the path to the offending node.</li>
+              <li>Change the <span className="font-medium">Board</span> to a larger m,n,k game (4×4 with 3 or 4 in a row, 5×5 with 4, …). With 16–25 moves at the root
+                UCT still concentrates its visits on a few promising children, while flat Monte Carlo in Part 1 has to split the same budget over every move.
+                The exact solver and the optimal-pick column of <em>Tree vs DAG</em> only cover 3×3.</li>
             </ol>
           </section>
         </header>
@@ -591,7 +938,7 @@ export default function MonteCarloTicTacToePart2() {
                 value={presetKey}
                 onChange={(e) => handlePreset(e.target.value)}
               >
-                {PRESETS.map((p) => (
+                {presets.map((p) => (
                   <option key={p.key} value={p.key}>{p.name}</option>
                 ))}
               </select>
@@ -616,23 +963,148 @@ export default function MonteCarloTicTacToePart2() {
                   />
                   Fresh run
                 </label>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="backup" className="text-sm text-slate-600">Backprop:</label>
+                  <select
+                    id="backup"
+                    className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                    value={backupMode}
+                    onChange={(e) => {
+                      setBackupMode(e.target.value as BackupMode);
+                      // the two modes store W from different sides, so a tree (and its log) can't mix them
+                      resetTreeToBoard(board);
+                    }}
+                    disabled={isRunning || playMode}
+                  >
+                    <option value="negamax">Adversarial (negamax)</option>
+                    <option value="root">Root perspective</option>
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-600" title="Reuse the node of a position reached by a different move order">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={transpositions}
+                    onChange={(e) => {
+                      setTranspositions(e.target.checked);
+                      resetTreeToBoard(board);
+                    }}
+                    disabled={isRunning || playMode}
+                  />
+                  Transpositions (DAG)
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-600" title="Expand one move per symmetry class; mirrored cells share its numbers">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={symmetry}
+                    onChange={(e) => {
+                      setSymmetry(e.target.checked);
+                      resetTreeToBoard(board, mnkGame(spec, e.target.checked, first));
+                    }}
+                    disabled={isRunning || playMode}
+                  />
+                  Symmetry
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-600" title="Validate the whole tree after every iteration (slow)">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={checkInvariants}
+                    onChange={(e) => {
+                      setCheckInvariants(e.target.checked);
+                      setViolation(null);
+                    }}
+                    disabled={isRunning}
+                  />
+                  Check invariants
+                </label>
               </div>
 
+              <button
+                onClick={copyLink}
+                className="ml-auto px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-sm hover:bg-slate-50"
+                title="Copy a link that restores this position and these settings"
+              >
+                {linkCopied ? "Link copied" : "Copy link"}
+              </button>
+
               {/* reset button (top-right of this control row) */}
               <button
                 onClick={resetPosition}
-                className="ml-auto px-3 py-1.5 rounded-lg bg-rose-500 text-white font-medium shadow hover:shadow-md hover:bg-rose-600"
+                className="px-3 py-1.5 rounded-lg bg-rose-500 text-white font-medium shadow hover:shadow-md hover:bg-rose-600"
               >
                 Reset
               </button>
             </div>
 
+            {/* play vs MCTS row */}
+            <div className="flex flex-wrap items-center gap-3 p-3 rounded-xl border border-slate-200 bg-slate-50">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={playMode}
+                  onChange={(e) => togglePlayMode(e.target.checked)}
+                  disabled={isRunning}
+                />
+                Play vs MCTS
+              </label>
+              {playMode && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="side" className="text-sm text-slate-600">You play:</label>
+                    <select
+                      id="side"
+                      className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                      value={humanSide}
+                      onChange={(e) => chooseSide(e.target.value as Player)}
+                      disabled={isRunning}
+                    >
+                      <option value="X">X</option>
+                      <option value="O">O</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="agentIters" className="text-sm text-slate-600">Agent iterations:</label>
+                    <input
+                      id="agentIters"
+                      type="number"
+                      min={1}
+                      max={20000}
+                      step={50}
+                      value={agentIters}
+                      onChange={(e) => setAgentIters(Math.max(1, Math.min(20000, parseInt(e.target.value || "0"))))}
+                      className="w-24 px-2 py-1 border border-slate-300 rounded-lg"
+                    />
+                  </div>
+                  <button
+                    onClick={() => newGame(presetKey, humanSide)}
+                    className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50"
+                    disabled={isRunning}
+                  >
+                    New game
+                  </button>
+                  <button
+                    onClick={undo}
+                    className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50"
+                    disabled={isRunning || !history.some((h) => !h.byAgent)}
+                  >
+                    Undo
+                  </button>
+                  <span className="ml-auto text-sm text-slate-600">
+                    {terminal ? "Game over" : isRunning ? "MCTS is thinking…" : currentPlayer === humanSide ? "Your move" : "MCTS to move"}
+                  </span>
+                </>
+              )}
+            </div>
+
             {/* buttons + animate-every row */}
             <div className="flex flex-wrap items-center gap-2">
               <button
                 onClick={stepOne}
                 className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50"
-                disabled={!!terminal || isRunning}
+                disabled={!!terminal || isRunning || playMode}
               >
                 {isRunning ? "Running…" : "Step 1 iter"}
               </button>
@@ -640,15 +1112,15 @@ export default function MonteCarloTicTacToePart2() {
               <button
                 onClick={stepManyAnimated}
                 className="px-3 py-1.5 rounded-lg bg-indigo-500 text-white font-medium shadow hover:shadow-md hover:bg-indigo-600 disabled:opacity-50"
-                disabled={(isRunning && !paused) || !!terminal}
+                disabled={(isRunning && !paused) || !!terminal || playMode}
               >
                 {`Step ${itersPerRun} iters (animated)`}
               </button>
 
               <button
-                onClick={() => (freshEachRun ? runBatchFresh(itersPerRun) : runBatch(itersPerRun))}
+                onClick={() => runBatch(itersPerRun, freshEachRun)}
                 className="px-3 py-1.5 rounded-lg bg-emerald-500 text-white font-medium shadow hover:shadow-md hover:bg-emerald-600 disabled:opacity-50"
-                disabled={(isRunning && !paused) || !!terminal}
+                disabled={(isRunning && !paused) || !!terminal || playMode}
               >
                 {freshEachRun ? `Run ${itersPerRun} iters (fresh)` : `Run ${itersPerRun} iters`}
               </button>
@@ -699,6 +1171,8 @@ export default function MonteCarloTicTacToePart2() {
               )}
             </div>
 
+            <BoardShapeControl spec={spec} onChange={changeShape} disabled={isRunning || playMode} />
+
             <p className="text-xs text-slate-500">{preset.note}</p>
 
             {/* phase bar */}
@@ -713,35 +1187,35 @@ export default function MonteCarloTicTacToePart2() {
                   <span
                     className={classNames(
                       "inline-flex items-center justify-center w-6 h-6 rounded-full text-white",
-                      phase === key ? color : "bg-slate-300"
+                      shown.phase === key ? color : "bg-slate-300"
                     )}
                   >
                     {i + 1}
                   </span>
-                  <span className={classNames(phase === key ? "font-semibold" : "text-slate-500")}>{label}</span>
+                  <span className={classNames(shown.phase === key ? "font-semibold" : "text-slate-500")}>{label}</span>
                   {i < 3 && <span className="text-slate-300">—</span>}
                 </div>
               ))}
             </div>
 
             {/* board with axes + overlays */}
-            <div className="grid grid-cols-[auto_repeat(3,1fr)] gap-3 w-max">
+            <div className="grid gap-3 w-max" style={{ gridTemplateColumns: `auto repeat(${spec.width}, 1fr)` }}>
               <div></div>
-              {[1, 2, 3].map((c) => (
-                <div key={`c${c}`} className="text-center font-medium text-slate-500">{c}</div>
+              {Array.from({ length: spec.width }, (_, c) => (
+                <div key={`c${c}`} className="text-center font-medium text-slate-500">{c + 1}</div>
               ))}
-              {[1, 2, 3].map((r) => (
+              {Array.from({ length: spec.height }, (_, r) => (
                 <React.Fragment key={`r${r}`}>
-                  <div className="flex items-center justify-center font-medium text-slate-500">{r}</div>
-                  {[0, 1, 2].map((c) => {
-                    const idx = (r - 1) * 3 + c;
-                    const child = root.children.get(idx);
+                  <div className="flex items-center justify-center font-medium text-slate-500">{r + 1}</div>
+                  {Array.from({ length: spec.width }, (_, c) => {
+                    const idx = r * spec.width + c;
+                    const child = statsByMove.get(repOf(idx));
                     const N = child?.N ?? 0;
                     const heat = maxN > 0 ? N / maxN : 0;
-                    const isBest = bestChildMove === idx;
-                    const sel = selRootMove === idx;
-                    const exp = expRootMove === idx;
-                    const ghost = simOverlay[idx];
+                    const isBest = bestChildMove !== null && bestChildMove === repOf(idx);
+                    const sel = shown.selRootMove === idx;
+                    const exp = shown.expRootMove === idx;
+                    const ghost = shown.simOverlay[idx];
                     return (
                       <CellView
                         key={idx}
@@ -752,7 +1226,9 @@ export default function MonteCarloTicTacToePart2() {
                         exp={exp}
                         heat={heat}
                         count={N}
-                        ghost={ghost as "X" | "O" | null}
+                        ghost={ghost}
+                        ghostRule={shown.simRules[idx]}
+                        small={!isClassic(spec)}
                       />
                     );
                   })}
@@ -760,10 +1236,130 @@ export default function MonteCarloTicTacToePart2() {
               ))}
             </div>
 
-            {/* bottom controls: C and iters */}
+            {/* the whole selection descent, level by level */}
+            {shown.descent && (
+              <SelectionStrip
+                steps={shown.descent.steps}
+                leaf={shown.descent.leaf}
+                expanded={shown.descent.expanded}
+                scoreLabel={POLICY_NAMES[policy.kind]}
+                spec={spec}
+              />
+            )}
+
+            {/* debug mode result */}
+            {violation ? (
+              <div className="p-3 rounded-xl border border-rose-300 bg-rose-50 text-sm text-rose-900">
+                <div className="font-semibold">Invariant violated: the run was stopped</div>
+                <div className="mt-1">{formatViolation(violation, spec)}</div>
+              </div>
+            ) : (
+              checkInvariants && (
+                <div className="text-xs text-emerald-700">Checking the tree after every iteration: no violations so far.</div>
+              )
+            )}
+
+            {/* bottom controls: policy, C and iters */}
             <div className="mt-2 grid gap-4">
-              <div className="grid gap-1">
-                <label className="text-xs uppercase tracking-wide text-slate-500">Exploration constant C (higher = more exploration)</label>
+              <div className="flex flex-wrap items-center gap-3">
+                <label htmlFor="policy" className="text-xs uppercase tracking-wide text-slate-500">Tree policy</label>
+                <select
+                  id="policy"
+                  className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                  value={policyKind}
+                  onChange={(e) => setPolicyKind(e.target.value as SelectionPolicy["kind"])}
+                  disabled={isRunning}
+                >
+                  {(Object.keys(POLICY_NAMES) as SelectionPolicy["kind"][]).map((k) => (
+                    <option key={k} value={k}>{POLICY_NAMES[k]}</option>
+                  ))}
+                </select>
+                {policyKind === "ucb-v" && (
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    Range term c
+                    <input
+                      type="number"
+                      value={ucbvC}
+                      step={0.1}
+                      min={0}
+                      onChange={(e) => setUcbvC(Math.max(0, parseFloat(e.target.value || "0")))}
+                      className="w-20 px-2 py-1 border border-slate-300 rounded-lg"
+                    />
+                  </label>
+                )}
+                {policyKind === "puct" && (
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    Priors
+                    <select
+                      className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                      value={puctPriors}
+                      onChange={(e) => setPuctPriors(e.target.value as "uniform" | "game")}
+                    >
+                      <option value="game">Center &gt; corners &gt; edges</option>
+                      <option value="uniform">Uniform</option>
+                    </select>
+                  </label>
+                )}
+                {policyKind === "epsilon-greedy" && (
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    ε
+                    <input
+                      type="number"
+                      value={epsilon}
+                      step={0.05}
+                      min={0}
+                      max={1}
+                      onChange={(e) => setEpsilon(Math.max(0, Math.min(1, parseFloat(e.target.value || "0"))))}
+                      className="w-20 px-2 py-1 border border-slate-300 rounded-lg"
+                    />
+                  </label>
+                )}
+                {policyKind === "thompson" && (
+                  <>
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                      Prior α
+                      <input
+                        type="number"
+                        value={betaAlpha}
+                        step={0.5}
+                        min={0.1}
+                        onChange={(e) => setBetaAlpha(Math.max(0.1, parseFloat(e.target.value || "0")))}
+                        className="w-20 px-2 py-1 border border-slate-300 rounded-lg"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                      β
+                      <input
+                        type="number"
+                        value={betaBeta}
+                        step={0.5}
+                        min={0.1}
+                        onChange={(e) => setBetaBeta(Math.max(0.1, parseFloat(e.target.value || "0")))}
+                        className="w-20 px-2 py-1 border border-slate-300 rounded-lg"
+                      />
+                    </label>
+                  </>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <label htmlFor="rolloutPolicy" className="text-xs uppercase tracking-wide text-slate-500">Rollout policy</label>
+                <select
+                  id="rolloutPolicy"
+                  className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                  value={rolloutPolicy}
+                  onChange={(e) => setRolloutPolicy(e.target.value as RolloutPolicy)}
+                  disabled={isRunning}
+                >
+                  {(Object.keys(ROLLOUT_NAMES) as RolloutPolicy[]).map((k) => (
+                    <option key={k} value={k}>{ROLLOUT_NAMES[k]}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-slate-500">During the animated simulation each ghost move is tagged with the rule that chose it.</span>
+              </div>
+              <div className={classNames("grid gap-1", !usesC && "opacity-50")}>
+                <label className="text-xs uppercase tracking-wide text-slate-500">
+                  Exploration constant C (higher = more exploration){!usesC && ` — not used by ${POLICY_NAMES[policyKind]}`}
+                </label>
                 <div className="grid grid-cols-[1fr_auto] items-center gap-3">
                   <input type="range" min={0} max={10} step={0.05} value={C} onChange={(e) => setC(parseFloat(e.target.value))} className="w-full" />
                   <input
@@ -802,44 +1398,93 @@ export default function MonteCarloTicTacToePart2() {
               </div>
             </div>
 
+            <PositionEditor
+              key={specKey(spec)}
+              board={board}
+              side={currentPlayer}
+              spec={spec}
+              onApply={(b, side) => {
+                const f = firstMover(b, side);
+                setBoard(b);
+                setFirst(f);
+                resetTreeToBoard(b, mnkGame(spec, symmetry, f));
+              }}
+              disabled={isRunning || playMode}
+            />
+
             {terminal && (
               <div className="mt-2 p-3 rounded-xl bg-amber-50 text-amber-800 border border-amber-200 text-sm">
-                This position is terminal: {terminal === "D" ? "Draw" : `${terminal} wins`}.
+                This position is terminal: {terminal === "D" ? "Draw" : `${terminal} wins`}
+                {playMode && terminal !== "D" && (terminal === humanSide ? " — you beat MCTS" : " — MCTS wins")}.
               </div>
             )}
           </div>
 
           {/* right: stats */}
           <aside className="p-4 rounded-2xl bg-white shadow-sm md:sticky md:top-6 flex flex-col" style={leftHeight ? { height: leftHeight } : undefined}>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <h3 className="text-lg font-semibold">Results</h3>
               {bestChildMove !== null && (
                 <span className="text-xs px-2 py-1 rounded-lg bg-violet-100 text-violet-800 border border-violet-200">
-                  Recommended: {indexToCoord(bestChildMove)}
+                  Recommended: {coord(bestChildMove)}
+                </span>
+              )}
+              {mistake && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-rose-100 text-rose-800 border border-rose-200">
+                  Mistake: {formatSolution(solved.get(bestChildMove!)!)} under perfect play
                 </span>
               )}
               {/* total iterations badge */}
               <span className="text-xs px-2 py-1 rounded-lg bg-slate-100 text-slate-700 border border-slate-200">
                 Total iters: {totalIters}
               </span>
+              {live && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-emerald-50 text-emerald-700 border border-emerald-200">
+                  This run: {live.iterations} · {Math.round(live.itersPerSec).toLocaleString()} it/s
+                </span>
+              )}
             </div>
 
-            {root.children.size === 0 && <p className="mt-2 text-sm text-slate-600">Run iterations to build the search.</p>}
+            {rootStats.length === 0 && <p className="mt-2 text-sm text-slate-600">Run iterations to build the search.</p>}
+            {rootStats.length > 0 && (
+              <p className="mt-2 text-xs text-slate-500">
+                Q and W/D/L are for {root.toMove}, who moves at the root.{" "}
+                {backupMode === "negamax"
+                  ? `Deeper nodes are scored for whoever moved into them, so ${otherPlayer(root.toMove)}'s replies are chosen to hurt ${root.toMove}.`
+                  : `Deeper nodes are also scored for ${root.toMove}, so ${otherPlayer(root.toMove)}'s replies are chosen to help ${root.toMove}.`}
+              </p>
+            )}
+
+            <div className="mt-3">
+              <FinalMovePanel
+                stats={rootStats}
+                rule={finalRule}
+                onRuleChange={setFinalRule}
+                secureA={secureA}
+                onSecureAChange={setSecureA}
+                label={coord}
+              />
+            </div>
 
             <div className="mt-3 grid gap-3 flex-1 overflow-auto">
-              {[...root.children.entries()]
-                .sort((a, b) => b[1].N - a[1].N)
-                .map(([m, ch]) => {
+              {rootStats
+                .slice()
+                .sort((a, b) => b.N - a.N)
+                .map((ch) => {
+                  const m = ch.move;
                   const Q = ch.N ? ch.W / ch.N : 0;
-                  const maxNLocal = Math.max(1, ...[...root.children.values()].map((c) => c.N));
-                  const pct = Math.round((ch.N / maxNLocal) * 100);
+                  const pct = Math.round((ch.N / Math.max(1, maxN)) * 100);
                   return (
                     <div key={m} className={classNames("p-3 rounded-xl border", bestChildMove === m ? "border-violet-300 bg-violet-50" : "border-slate-200")}>
                       <div className="flex flex-wrap items-center gap-3">
-                        <span className="text-sm font-medium">Move {indexToCoord(m)}</span>
+                        <span className="text-sm font-medium">Move {coord(m)}</span>
+                        {classSize(m) > 1 && (
+                          <span className="text-xs px-2 py-0.5 rounded-md bg-teal-50 text-teal-800 border border-teal-200">stands for {classSize(m)} symmetric moves</span>
+                        )}
                         <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">Visits: {ch.N}</span>
-                        <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">Q: {Q.toFixed(3)}</span>
-                        <span className="ml-auto text-xs text-slate-600">W/D/L: {ch.wins}/{ch.draws}/{ch.losses}</span>
+                        <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">Q for {root.toMove}: {Q.toFixed(3)}</span>
+                        <SolverBadge solution={solved.get(m)} />
+                        <span className="ml-auto text-xs text-slate-600">W/D/L for {root.toMove}: {ch.wins}/{ch.draws}/{ch.losses}</span>
                       </div>
                       <div className="mt-2 h-2.5 bg-gray-200 rounded-full overflow-hidden">
                         <div className="h-full bg-emerald-500" style={{ width: `${pct}%` }} />
@@ -850,6 +1495,55 @@ export default function MonteCarloTicTacToePart2() {
             </div>
           </aside>
         </section>
+
+        <ConvergenceCharts series={live?.series ?? series} label={coord} />
+
+        <TranspositionCompare
+          key={boardKey(board)}
+          game={game}
+          board={board}
+          policy={policy}
+          backupMode={backupMode}
+          rolloutPolicy={rolloutPolicy}
+          finalRule={finalRule}
+          secureA={secureA}
+          seed={seed}
+          spec={spec}
+        />
+
+        <TreeExportPanel root={root} backupMode={backupMode} flags={{ symmetry, transpositions }} onImport={importTree} disabled={isRunning || playMode} spec={spec} />
+
+        <IterationTimeline
+          log={log}
+          rootN={root.N}
+          rootToMove={root.toMove}
+          scrub={scrub}
+          onScrub={setScrub}
+          disabled={isRunning}
+          spec={spec}
+        />
+
+        <SearchTreeView root={shownRoot} policy={policy} backupMode={backupMode} lastPath={replay ? replay.path : lastPath} spec={spec} />
+
+        {/* game record for play vs MCTS */}
+        {playMode && (
+          <section className="p-4 rounded-2xl bg-white shadow-sm">
+            <h3 className="text-lg font-semibold">Game record</h3>
+            {history.length === 0 && <p className="mt-2 text-sm text-slate-600">No moves yet.</p>}
+            <ol className="mt-2 grid gap-1 text-sm">
+              {history.map((h, i) => (
+                <li key={i} className="flex flex-wrap items-center gap-3">
+                  <span className="w-6 text-right text-slate-500">{i + 1}.</span>
+                  <span className={classNames("font-semibold", h.player === "X" ? "text-indigo-600" : "text-pink-600")}>{h.player}</span>
+                  <span>{coord(h.move)}</span>
+                  <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">{h.byAgent ? "MCTS" : "You"}</span>
+                  {h.byAgent && <span className="text-xs text-slate-600">thought {h.thought} iters</span>}
+                  <span className="text-xs text-slate-600">inherited {h.inherited} visits</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
       </div>
     </div>
   );
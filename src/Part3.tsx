@@ -1,4 +1,5 @@
 import { useMemo, useState } from "react";
+import { uctValue as uct } from "./mcts";
 
 // helpers
 function classNames(...xs: Array<string | false | undefined>) {
@@ -12,12 +13,6 @@ type Scenario = {
   children: Child[];
 };
 
-function uct(parentN: number, child: Child, C: number) {
-  const q = child.N > 0 ? child.W / child.N : 0;
-  const u = C * Math.sqrt(Math.log(parentN + 1) / (child.N + 1));
-  return q + u;
-}
-
 
 
 // activity B
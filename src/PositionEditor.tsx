@@ -0,0 +1,169 @@
+import { useState } from "react";
+import type { Player } from "./mcts";
+import { CLASSIC, emptyBoard, nextPlayer, type Board, type BoardSpec, type Cell } from "./tictactoe";
+import { formatPosition, parsePosition, validatePosition } from "./position";
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const NEXT_CELL: Record<string, Cell> = { "": "X", X: "O", O: null };
+
+// free editing of any cell, the side to move and the text notation, for setting up positions by hand.
+// With as many X as O either side may be to move (it is the one that moved first); otherwise the side with fewer marks is.
+export default function PositionEditor({
+  board,
+  side: boardSide,
+  onApply,
+  disabled,
+  spec = CLASSIC,
+}: {
+  board: Board;
+  side: Player;
+  onApply: (board: Board, side: Player) => void;
+  disabled?: boolean;
+  spec?: BoardSpec;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Board>(board);
+  const [side, setSide] = useState<Player>(boardSide);
+  const [text, setText] = useState("");
+  const [textError, setTextError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const error = validatePosition(draft, side, spec);
+  const sideIsFree = draft.filter((c) => c === "X").length === draft.filter((c) => c === "O").length;
+
+  const startEditing = () => {
+    setDraft(board.slice());
+    setSide(boardSide);
+    setText(formatPosition(board, spec, boardSide));
+    setTextError(null);
+    setOpen(true);
+  };
+
+  const cycle = (i: number) => {
+    const next = draft.slice();
+    next[i] = NEXT_CELL[draft[i] ?? ""];
+    // keep the chosen side while it is still a choice
+    const nextSide = nextPlayer(next, side);
+    setDraft(next);
+    setSide(nextSide);
+    setText(formatPosition(next, spec, nextSide));
+    setTextError(null);
+  };
+
+  const loadText = (value: string) => {
+    setText(value);
+    const parsed = parsePosition(value, spec);
+    if (parsed.ok) {
+      setDraft(parsed.board);
+      setSide(parsed.side);
+      setTextError(null);
+    } else {
+      setTextError(parsed.error);
+    }
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatPosition(board, spec, boardSide));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1200);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-xl border border-slate-200 bg-slate-50 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs uppercase tracking-wide text-slate-500">Position</span>
+        <code className="px-2 py-0.5 rounded-md bg-white border border-slate-200">{formatPosition(board, spec, boardSide)}</code>
+        <button onClick={copy} className="px-2 py-1 rounded-lg border border-slate-300 text-slate-700 text-xs hover:bg-white">
+          {copied ? "Copied" : "Copy"}
+        </button>
+        <button
+          onClick={() => (open ? setOpen(false) : startEditing())}
+          className="ml-auto px-3 py-1 rounded-lg border border-violet-300 text-violet-700 text-xs hover:bg-violet-50 disabled:opacity-40"
+          disabled={disabled}
+        >
+          {open ? "Close editor" : "Edit position"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 flex flex-wrap items-start gap-4">
+          <div className="grid gap-1 w-max" style={{ gridTemplateColumns: `repeat(${spec.width}, auto)` }}>
+            {draft.map((c, i) => (
+              <button
+                key={i}
+                onClick={() => cycle(i)}
+                className={classNames(
+                  "w-10 h-10 rounded-lg border border-slate-300 bg-white text-lg font-semibold",
+                  c === "X" ? "text-indigo-600" : "text-pink-600"
+                )}
+                title="Click to cycle empty → X → O"
+              >
+                {c ?? ""}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid gap-2 flex-1 min-w-[220px]">
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              Side to move
+              <select
+                className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                value={side}
+                onChange={(e) => {
+                  const next = e.target.value as Player;
+                  setSide(next);
+                  setText(formatPosition(draft, spec, next));
+                  setTextError(null);
+                }}
+              >
+                <option value="X">X</option>
+                <option value="O">O</option>
+              </select>
+              <span className="text-slate-500">{sideIsFree ? "equal marks: either side, as the one that moved first" : "must be the side with fewer marks"}</span>
+            </label>
+            <label className="grid gap-1 text-xs text-slate-600">
+              Notation (rows split by /, then side)
+              <input
+                value={text}
+                onChange={(e) => loadText(e.target.value)}
+                className="px-2 py-1 font-mono border border-slate-300 rounded-lg"
+                placeholder={formatPosition(emptyBoard(spec), spec)}
+                spellCheck={false}
+              />
+            </label>
+            {(textError ?? error) && <p className="text-xs text-rose-700">{textError ?? error}</p>}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => {
+                  onApply(draft, side);
+                  setOpen(false);
+                }}
+                className="px-3 py-1.5 rounded-lg bg-violet-600 text-white text-xs font-medium shadow hover:bg-violet-700 disabled:opacity-50"
+                disabled={error !== null || textError !== null}
+              >
+                Use this position
+              </button>
+              <button
+                onClick={() => {
+                  setDraft(emptyBoard(spec));
+                  setText(formatPosition(emptyBoard(spec), spec, side));
+                  setTextError(null);
+                }}
+                className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-xs hover:bg-white"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
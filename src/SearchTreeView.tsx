@@ -0,0 +1,253 @@
+import { useMemo, useState } from "react";
+import { graphStats, otherPlayer, policyScore, type BackupMode, type Node, type Player, type SelectionPolicy } from "./mcts";
+import { CLASSIC, indexToCoord, type Board, type BoardSpec } from "./tictactoe";
+
+type TreeNode = Node<Board, number>;
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const keyOf = (path: number[]) => path.join("-");
+
+function isPrefix(prefix: number[], path: number[] | null) {
+  if (!path || prefix.length > path.length) return false;
+  return prefix.every((m, i) => path[i] === m);
+}
+
+// follow `path` as far as the tree goes
+function nodeAt(root: TreeNode, path: number[]) {
+  let node = root;
+  let parent: TreeNode | null = null;
+  const reached: number[] = [];
+  for (const m of path) {
+    const ch = node.children.get(m);
+    if (!ch) break;
+    parent = node;
+    node = ch;
+    reached.push(m);
+  }
+  return { node, parent, path: reached };
+}
+
+function MiniBoard({ board, last, width }: { board: Board; last: number | null; width: number }) {
+  return (
+    <div className="grid gap-px bg-slate-300 border border-slate-300 rounded-sm overflow-hidden shrink-0" style={{ gridTemplateColumns: `repeat(${width}, auto)` }}>
+      {board.map((c, i) => (
+        <div
+          key={i}
+          className={classNames(
+            "w-3.5 h-3.5 grid place-items-center text-[9px] font-bold leading-none",
+            i === last ? "bg-amber-100" : "bg-white",
+            c === "X" ? "text-indigo-600" : "text-pink-600"
+          )}
+        >
+          {c ?? ""}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type RowProps = {
+  node: TreeNode;
+  parent: TreeNode | null;
+  move: number | null;   // shared nodes can be reached by different moves, so it comes from the edge
+  path: number[];
+  policy: SelectionPolicy;
+  backupMode: BackupMode;
+  rootPlayer: Player;
+  lastPath: number[] | null;
+  spec: BoardSpec;
+  expanded: Set<string>;
+  toggle: (path: number[]) => void;
+  focusOn: (path: number[]) => void;
+};
+
+function TreeRow({ node, parent, move, path, policy, backupMode, rootPlayer, lastPath, spec, expanded, toggle, focusOn }: RowProps) {
+  const open = expanded.has(keyOf(path));
+  const onLast = isPrefix(path, lastPath);
+  const kids = [...node.children.entries()].sort((a, b) => b[1].N - a[1].N);
+  const Q = node.N ? node.W / node.N : 0;
+  // whose point of view W and Q are in
+  const qFor = backupMode === "root" ? rootPlayer : otherPlayer(node.toMove);
+  const score = parent && move !== null ? policyScore(policy, parent, node, move) : null;
+
+  return (
+    <li className="relative pl-4 before:absolute before:left-0 before:top-4 before:w-3 before:border-t before:border-slate-300">
+      <div
+        className={classNames(
+          "flex flex-wrap items-center gap-2 px-2 py-1 rounded-lg border text-xs",
+          onLast ? "border-sky-400 bg-sky-50" : "border-slate-200 bg-white"
+        )}
+      >
+        <button
+          onClick={() => toggle(path)}
+          className="w-5 text-slate-500 disabled:opacity-30"
+          disabled={kids.length === 0}
+          aria-label={open ? "Collapse" : "Expand"}
+        >
+          {kids.length === 0 ? "·" : open ? "▾" : "▸"}
+        </button>
+        <MiniBoard board={node.state} last={move} width={spec.width} />
+        <span className="font-medium">
+          {move === null ? "Root" : `${otherPlayer(node.toMove)} ${indexToCoord(move, spec)}`}
+        </span>
+        <span className="text-slate-600">N {node.N}</span>
+        <span className="text-slate-600">W {node.W.toFixed(1)}</span>
+        <span className="text-slate-600">Q<sub>{qFor}</sub> {Q.toFixed(3)}</span>
+        {score !== null && <span className="text-slate-600">{policy.kind === "ucb1" ? "UCT" : "Score"} {score.toFixed(3)}</span>}
+        {node.terminal && <span className="px-1.5 rounded bg-amber-100 text-amber-800">{node.terminal === "D" ? "draw" : `${node.terminal} wins`}</span>}
+        {path.length > 0 && (
+          <button onClick={() => focusOn(path)} className="ml-auto text-violet-700 hover:underline">
+            Drill in
+          </button>
+        )}
+      </div>
+      {open && kids.length > 0 && (
+        <ul className="ml-4 mt-1 grid gap-1 border-l border-slate-300">
+          {kids.map(([m, ch]) => (
+            <TreeRow
+              key={m}
+              node={ch}
+              parent={node}
+              move={m}
+              path={[...path, m]}
+              policy={policy}
+              backupMode={backupMode}
+              rootPlayer={rootPlayer}
+              lastPath={lastPath}
+              spec={spec}
+              expanded={expanded}
+              toggle={toggle}
+              focusOn={focusOn}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+// collapsible view of the whole search tree, with drill-in and the latest iteration's path
+export default function SearchTreeView({
+  root,
+  policy,
+  backupMode,
+  lastPath,
+  spec = CLASSIC,
+}: {
+  root: TreeNode;
+  policy: SelectionPolicy;
+  backupMode: BackupMode;
+  lastPath: number[] | null;
+  spec?: BoardSpec;
+}) {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set([""]));
+  const [focusPath, setFocusPath] = useState<number[]>([]);
+
+  const focus = useMemo(() => nodeAt(root, focusPath), [root, focusPath]);
+
+  const stats = useMemo(() => {
+    // depth of a position is its ply count from the root, however it was reached
+    let depth = 0;
+    const seen = new Set<TreeNode>();
+    const stack: Array<[TreeNode, number]> = [[root, 0]];
+    while (stack.length) {
+      const [n, d] = stack.pop()!;
+      if (seen.has(n)) continue;
+      seen.add(n);
+      depth = Math.max(depth, d);
+      for (const ch of n.children.values()) stack.push([ch, d + 1]);
+    }
+    return { ...graphStats(root), depth };
+  }, [root]);
+
+  const toggle = (path: number[]) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      const k = keyOf(path);
+      if (next.has(k)) next.delete(k);
+      else next.add(k);
+      return next;
+    });
+  };
+
+  const expandLastPath = () => {
+    if (!lastPath) return;
+    setFocusPath([]);
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      for (let i = 0; i <= lastPath.length; i++) next.add(keyOf(lastPath.slice(0, i)));
+      return next;
+    });
+  };
+
+  // paths are always measured from the real root; only highlight when it passes through the focus
+  const visibleLastPath = lastPath && isPrefix(focus.path, lastPath) ? lastPath : null;
+
+  return (
+    <section className="p-4 rounded-2xl bg-white shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-lg font-semibold">Search tree</h3>
+        <span className="text-xs px-2 py-1 rounded-lg bg-slate-100 text-slate-700 border border-slate-200">Nodes: {stats.nodes}</span>
+        <span className="text-xs px-2 py-1 rounded-lg bg-slate-100 text-slate-700 border border-slate-200">Depth: {stats.depth}</span>
+        {stats.shared > 0 && (
+          <span className="text-xs px-2 py-1 rounded-lg bg-teal-50 text-teal-800 border border-teal-200" title="Links to a position already in the search, each of which would otherwise be a separate copy">
+            Duplicates avoided: {stats.shared}
+          </span>
+        )}
+        <button
+          onClick={expandLastPath}
+          className="ml-auto px-3 py-1.5 rounded-lg border border-sky-300 text-sky-700 text-sm hover:bg-sky-50 disabled:opacity-40"
+          disabled={!lastPath}
+        >
+          Show last iteration
+        </button>
+        <button
+          onClick={() => setExpanded(new Set([""]))}
+          className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-sm hover:bg-slate-50"
+        >
+          Collapse all
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        Each node shows the move that led to it, its visits N, total reward W and Q = W/N for the player named in Q's subscript,
+        and the value the selection policy gives it as seen from its parent. The blue path is the one taken by the most recent iteration.
+      </p>
+
+      {/* breadcrumb back up from a drilled-in node */}
+      <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+        <button onClick={() => setFocusPath([])} className="text-violet-700 hover:underline">Root</button>
+        {focus.path.map((m, i) => (
+          <span key={i} className="flex items-center gap-1">
+            <span className="text-slate-400">›</span>
+            <button onClick={() => setFocusPath(focus.path.slice(0, i + 1))} className="text-violet-700 hover:underline">
+              {indexToCoord(m, spec)}
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <ul className="mt-2 grid gap-1 max-h-[32rem] overflow-auto">
+        <TreeRow
+          node={focus.node}
+          parent={focus.parent}
+          move={focus.path.length ? focus.path[focus.path.length - 1] : null}
+          path={focus.path}
+          policy={policy}
+          backupMode={backupMode}
+          rootPlayer={root.toMove}
+          lastPath={visibleLastPath}
+          spec={spec}
+          expanded={expanded}
+          toggle={toggle}
+          focusOn={(path) => {
+            setFocusPath(path);
+            setExpanded((prev) => new Set(prev).add(keyOf(path)));
+          }}
+        />
+      </ul>
+    </section>
+  );
+}
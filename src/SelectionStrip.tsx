@@ -0,0 +1,103 @@
+import type { SelectionStep } from "./mcts";
+import { CLASSIC, indexToCoord, type Board, type BoardSpec } from "./tictactoe";
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const fmt = (x: number) => (Number.isFinite(x) ? x.toFixed(2) : "∞");
+
+// one mini-board: pieces in occupied cells, selection scores in the cells that have a child
+function LevelBoard({
+  board,
+  scores,
+  chosen,
+  expanded,
+  width,
+}: {
+  board: Board;
+  scores?: Map<number, number>;
+  chosen?: number | null;
+  expanded?: number | null;
+  width: number;
+}) {
+  return (
+    <div className="grid gap-0.5 w-max" style={{ gridTemplateColumns: `repeat(${width}, auto)` }}>
+      {board.map((c, i) => (
+        <div
+          key={i}
+          className={classNames(
+            "w-10 h-10 grid place-items-center rounded-md border text-[11px]",
+            i === chosen ? "ring-2 ring-sky-500 bg-sky-50 border-sky-300" : "border-slate-200 bg-white",
+            i === expanded && "border-2 border-dashed border-amber-500 bg-amber-50"
+          )}
+        >
+          {c ? (
+            <span className={classNames("text-base font-bold", c === "X" ? "text-indigo-600" : "text-pink-600")}>{c}</span>
+          ) : scores?.has(i) ? (
+            <span className={classNames("tabular-nums", i === chosen ? "font-semibold text-sky-900" : "text-slate-600")}>
+              {fmt(scores.get(i)!)}
+            </span>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// the whole descent of one iteration: every level selection passed through, then the leaf
+export default function SelectionStrip({
+  steps,
+  leaf,
+  expanded,
+  scoreLabel,
+  spec = CLASSIC,
+}: {
+  steps: SelectionStep<Board, number>[];
+  leaf: Board;
+  expanded: number | null;   // move added at the leaf, once expansion has happened
+  scoreLabel: string;
+  spec?: BoardSpec;
+}) {
+  return (
+    <div className="grid gap-1">
+      <div className="text-xs text-slate-500">
+        Selection path · each cell shows that child's score under {scoreLabel} at the moment of the choice
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {steps.map((st, d) => {
+          const best = st.options.reduce((a, b) => (b.score > a.score ? b : a), st.options[0]);
+          const pick = st.options.find((o) => o.move === st.chosen);
+          return (
+            <div key={d} className="p-2 rounded-xl border border-sky-200 bg-sky-50/40 shrink-0">
+              <div className="mb-1 text-[11px] text-slate-600">
+                Depth {d} · {st.toMove} to move · N={st.N}
+              </div>
+              <LevelBoard board={st.state} scores={new Map(st.options.map((o) => [o.move, o.score]))} chosen={st.chosen} width={spec.width} />
+              <div className="mt-1 text-[11px] text-slate-700 max-w-[8.5rem]">
+                Picked <span className="font-semibold">{indexToCoord(st.chosen, spec)}</span>
+                {pick && ` (N=${pick.N}, Q=${pick.Q.toFixed(2)})`}
+                {best && pick && best.move !== pick.move && best.score > pick.score && (
+                  <span className="text-slate-500"> over {indexToCoord(best.move, spec)} at {fmt(best.score)}</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <div className="p-2 rounded-xl border border-amber-200 bg-amber-50/40 shrink-0">
+          <div className="mb-1 text-[11px] text-slate-600">Depth {steps.length} · leaf</div>
+          <LevelBoard board={leaf} expanded={expanded} width={spec.width} />
+          <div className="mt-1 text-[11px] text-slate-700 max-w-[8.5rem]">
+            {expanded !== null ? (
+              <>
+                Expanded <span className="font-semibold">{indexToCoord(expanded, spec)}</span>
+              </>
+            ) : (
+              "Not fully expanded, or the game is over here"
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
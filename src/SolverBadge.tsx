@@ -0,0 +1,23 @@
+import { formatSolution, type Solution } from "./solver";
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+// exact value of a move under perfect play, shown beside the sampled estimate
+export default function SolverBadge({ solution }: { solution: Solution | undefined }) {
+  if (!solution) return null;
+  return (
+    <span
+      title="Exact value from a full minimax search, for the player making the move"
+      className={classNames(
+        "text-xs px-2 py-0.5 rounded-md border",
+        solution.result === "win" && "bg-emerald-50 text-emerald-800 border-emerald-200",
+        solution.result === "draw" && "bg-slate-50 text-slate-700 border-slate-300",
+        solution.result === "loss" && "bg-rose-50 text-rose-800 border-rose-200"
+      )}
+    >
+      Solver: {formatSolution(solution)}
+    </span>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  buildTable,
+  childStats,
+  chooseMove,
+  createMulberry32,
+  graphStats,
+  makeNode,
+  runIteration,
+  type BackupMode,
+  type FinalMoveRule,
+  type Game,
+  type RolloutPolicy,
+  type SelectionPolicy,
+} from "./mcts";
+import { CLASSIC, boardKey, firstMover, isClassic, type Board, type BoardSpec } from "./tictactoe";
+import { isMistake, solveMoves } from "./solver";
+
+const YIELD_MS = 30;
+
+type ModeResult = { optimal: number; nodes: number; shared: number; ms: number };
+type Comparison = { seeds: number; budget: number; tree: ModeResult; dag: ModeResult };
+
+const emptyResult = (): ModeResult => ({ optimal: 0, nodes: 0, shared: 0, ms: 0 });
+
+// same seeds and iteration budget with and without shared transpositions, scored against the solver
+export default function TranspositionCompare({
+  game,
+  board,
+  policy,
+  backupMode,
+  rolloutPolicy,
+  finalRule,
+  secureA,
+  seed,
+  spec = CLASSIC,
+}: {
+  game: Game<Board, number>;
+  board: Board;
+  policy: SelectionPolicy;
+  backupMode: BackupMode;
+  rolloutPolicy: RolloutPolicy;
+  finalRule: FinalMoveRule;
+  secureA: number;
+  seed: number;
+  spec?: BoardSpec;
+}) {
+  const [budget, setBudget] = useState(300);
+  const [seeds, setSeeds] = useState(20);
+  const [done, setDone] = useState<number | null>(null);
+  const [result, setResult] = useState<Comparison | null>(null);
+  const cancelRef = useRef(false);
+
+  useEffect(() => () => { cancelRef.current = true; }, []);
+
+  const run = async () => {
+    cancelRef.current = false;
+    const solved = solveMoves(board, spec, firstMover(board, game.toMove(board)));
+    const tree = emptyResult();
+    const dag = emptyResult();
+    let sliceStart = performance.now();
+    // yield every few ms, inside a search too, so large budgets keep the page responsive; time spent yielding is not counted
+    const pause = async (k: number) => {
+      if (performance.now() - sliceStart <= YIELD_MS) return 0;
+      const t = performance.now();
+      setDone(k);
+      await new Promise((r) => setTimeout(r, 0));
+      sliceStart = performance.now();
+      return sliceStart - t;
+    };
+    setDone(0);
+    for (let k = 0; k < seeds && !cancelRef.current; k++) {
+      for (const [acc, shared] of [[tree, false], [dag, true]] as const) {
+        const t0 = performance.now();
+        let idle = 0;
+        const root = makeNode(game, board);
+        const table = shared ? buildTable(root, boardKey) : undefined;
+        const rand = createMulberry32((seed + k) >>> 0);
+        for (let i = 0; i < budget && !cancelRef.current; i++) {
+          runIteration(game, root, policy, rand, backupMode, rolloutPolicy, table);
+          idle += await pause(k);
+        }
+        acc.ms += performance.now() - t0 - idle;
+        const pick = chooseMove(childStats(root), finalRule, secureA);
+        if (pick !== null && !isMistake(solved, pick)) acc.optimal++;
+        const g = graphStats(root);
+        acc.nodes += g.nodes;
+        acc.shared += g.shared;
+      }
+    }
+    if (!cancelRef.current) setResult({ seeds, budget, tree, dag });
+    setDone(null);
+  };
+
+  const running = done !== null;
+  const exact = isClassic(spec);   // the solver only covers 3x3, so larger boards get no optimal-pick column
+  const rows = result ? ([["Tree", result.tree], ["DAG (transpositions)", result.dag]] as const) : [];
+
+  return (
+    <section className="p-4 rounded-2xl bg-white shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-lg font-semibold">Tree vs DAG</h3>
+        <label htmlFor="dagBudget" className="text-sm text-slate-600">Iterations:</label>
+        <input
+          id="dagBudget"
+          type="number"
+          min={10}
+          max={20000}
+          value={budget}
+          onChange={(e) => setBudget(Math.min(20000, Math.max(10, parseInt(e.target.value || "0"))))}
+          className="w-24 px-2 py-1 border border-slate-300 rounded-lg"
+          disabled={running}
+        />
+        <label htmlFor="dagSeeds" className="text-sm text-slate-600">Seeds:</label>
+        <input
+          id="dagSeeds"
+          type="number"
+          min={1}
+          max={200}
+          value={seeds}
+          onChange={(e) => setSeeds(Math.min(200, Math.max(1, parseInt(e.target.value || "0"))))}
+          className="w-20 px-2 py-1 border border-slate-300 rounded-lg"
+          disabled={running}
+        />
+        <button
+          className="px-3 py-1.5 rounded-lg bg-teal-600 text-white text-sm font-medium shadow hover:shadow-md hover:bg-teal-700 disabled:opacity-50"
+          onClick={run}
+          disabled={running || game.outcome(board) !== null}
+        >
+          {running ? `Comparing… ${done}/${seeds}` : "Compare"}
+        </button>
+        {running && (
+          <button
+            className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-sm hover:bg-slate-50"
+            onClick={() => { cancelRef.current = true; }}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        Runs both searches from the current position with the same seeds, iteration budget and settings, and counts how often the
+        recommended move is optimal according to the exact solver{exact ? "" : " (3×3 only; on this board only size and time are compared)"}.
+      </p>
+
+      {result && (
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500">
+              <th className="py-1">Mode</th>
+              {exact && <th className="py-1">Optimal pick</th>}
+              <th className="py-1">Avg nodes</th>
+              <th className="py-1">Avg duplicates avoided</th>
+              <th className="py-1">Avg time</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([name, r]) => (
+              <tr key={name} className="border-t border-slate-200">
+                <td className="py-1 font-medium">{name}</td>
+                {exact && <td className="py-1">{r.optimal}/{result.seeds} ({Math.round((100 * r.optimal) / result.seeds)}%)</td>}
+                <td className="py-1">{Math.round(r.nodes / result.seeds)}</td>
+                <td className="py-1">{Math.round(r.shared / result.seeds)}</td>
+                <td className="py-1">{(r.ms / result.seeds).toFixed(1)} ms</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
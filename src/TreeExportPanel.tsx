@@ -0,0 +1,95 @@
+import { useState } from "react";
+import type { BackupMode, Node } from "./mcts";
+import { CLASSIC, specLabel, type Board, type BoardSpec } from "./tictactoe";
+import { rootStatsToCsv, treeFromJson, treeToDot, treeToJson, type TreeFlags } from "./treeExport";
+
+type TreeNode = Node<Board, number>;
+
+function download(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// save the current tree for offline analysis, or load one back in
+export default function TreeExportPanel({
+  root,
+  backupMode,
+  flags,
+  onImport,
+  disabled,
+  spec = CLASSIC,
+}: {
+  root: TreeNode;
+  backupMode: BackupMode;
+  flags: TreeFlags;
+  onImport: (root: TreeNode, backupMode: BackupMode, spec: BoardSpec, flags: TreeFlags) => void;
+  disabled?: boolean;
+  spec?: BoardSpec;
+}) {
+  const [minVisits, setMinVisits] = useState(10);
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const importFile = async (file: File) => {
+    const res = treeFromJson(await file.text());
+    if (res.ok) {
+      onImport(res.root, res.backupMode, res.spec, res.flags);
+      setMessage({ error: false, text: `Loaded ${file.name}: ${specLabel(res.spec)}, ${res.root.N} visits at the root.` });
+    } else {
+      setMessage({ error: true, text: res.error });
+    }
+  };
+
+  const btn = "px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-sm hover:bg-slate-50 disabled:opacity-40";
+
+  return (
+    <section className="p-4 rounded-2xl bg-white shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-lg font-semibold mr-2">Export / import</h3>
+        <button className={btn} onClick={() => download("mcts-tree.json", treeToJson(root, backupMode, spec, flags), "application/json")} disabled={disabled || root.N === 0}>
+          Tree JSON
+        </button>
+        <button className={btn} onClick={() => download("root-children.csv", rootStatsToCsv(root, spec), "text/csv")} disabled={disabled || root.N === 0}>
+          Root stats CSV
+        </button>
+        <span className="flex items-center gap-1">
+          <button className={btn} onClick={() => download("mcts-tree.dot", treeToDot(root, minVisits, spec), "text/vnd.graphviz")} disabled={disabled || root.N === 0}>
+            Graphviz DOT
+          </button>
+          <label className="text-xs text-slate-600 flex items-center gap-1">
+            min visits
+            <input
+              type="number"
+              min={0}
+              value={minVisits}
+              onChange={(e) => setMinVisits(Math.max(0, parseInt(e.target.value || "0")))}
+              className="w-16 px-1.5 py-0.5 border border-slate-300 rounded-md"
+            />
+          </label>
+        </span>
+        <label className={`${btn} ml-auto cursor-pointer ${disabled ? "pointer-events-none opacity-40" : ""}`}>
+          Import JSON…
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            disabled={disabled}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void importFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        JSON keeps every node with its N, W and win/draw/loss counts, plus the backup, symmetry and transpositions settings, and can be imported later to keep searching; DOT draws only nodes with
+        at least the given visits (render with <code>dot -Tsvg</code>); the CSV lists the root children.
+      </p>
+      {message && <p className={`mt-1 text-xs ${message.error ? "text-rose-700" : "text-emerald-700"}`}>{message.text}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,531 @@
+import { useMemo, useRef, useState, useLayoutEffect } from "react";
+import {
+  bestChildMove as mostVisitedMove,
+  createMulberry32,
+  makeNode,
+  otherPlayer,
+  promoteChild,
+  runIteration,
+  type Node,
+  type Player,
+} from "./mcts";
+import {
+  Ultimate,
+  activeBoards,
+  cellLabel,
+  checkWinner,
+  emptyState,
+  playMoves,
+  winningBoards,
+  type UltimateState,
+} from "./ultimate";
+
+type TreeNode = Node<UltimateState, number>;
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+// presets, written as move lists so every position obeys the send rule
+const PRESETS: { key: string; name: string; state: UltimateState; note: string }[] = [
+  { key: "empty", name: "Empty board", state: emptyState(), note: "Start position: 81 legal moves, and X may play anywhere." },
+  {
+    key: "opening",
+    name: "Opening (X to move)",
+    state: playMoves([40, 36, 4, 44]),
+    note: "After four moves O has sent X to the bottom-right board. Any move there sends O on to the matching board.",
+  },
+];
+
+// one played move in play vs MCTS
+type HistoryEntry = { player: Player; move: number; byAgent: boolean; thought: number; inherited: number };
+
+// iterations between UI updates; an iteration here costs far more than on 3x3
+const CHUNK = 100;
+const PAUSE_POLL_MS = 60;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// components
+export default function UltimateTicTacToeUCT() {
+  const [presetKey, setPresetKey] = useState(PRESETS[0].key);
+  const [state, setState] = useState<UltimateState>(PRESETS[0].state);
+
+  const [C, setC] = useState<number>(1);
+  const [iters, setIters] = useState<number>(2000);
+  const [seed, setSeed] = useState<number>(42);
+
+  const [root, setRoot] = useState<TreeNode>(() => makeNode(Ultimate, PRESETS[0].state));
+  const [isRunning, setIsRunning] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [done, setDone] = useState(0);
+  const tokenRef = useRef<{ paused: boolean; cancelled: boolean }>({ paused: false, cancelled: false });
+
+  const [playMode, setPlayMode] = useState(false);
+  const [humanSide, setHumanSide] = useState<Player>("X");
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+
+  const currentPlayer = root.toMove;
+  const terminal = useMemo(() => checkWinner(state), [state]);
+  const active = useMemo(() => new Set(activeBoards(state)), [state]);
+  const winLine = useMemo(() => new Set(winningBoards(state) ?? []), [state]);
+
+  // layout syncing
+  const leftPanelRef = useRef<HTMLDivElement>(null);
+  const [leftHeight, setLeftHeight] = useState<number | null>(null);
+  useLayoutEffect(() => {
+    const measure = () => { if (leftPanelRef.current) setLeftHeight(leftPanelRef.current.offsetHeight); };
+    measure();
+    window.addEventListener("resize", measure);
+    return () => window.removeEventListener("resize", measure);
+  }, [state, root, C, iters, terminal, playMode]);
+
+  const stopSearch = () => {
+    tokenRef.current.cancelled = true;
+    tokenRef.current.paused = false;
+  };
+
+  const resetTreeTo = (s: UltimateState) => {
+    setState(s);
+    setRoot(makeNode(Ultimate, s));
+    setDone(0);
+  };
+
+  // grow `workRoot` in place, yielding to the UI between chunks; false if it was cancelled
+  const search = async (workRoot: TreeNode, budget: number, runSeed: number) => {
+    const token = { paused: false, cancelled: false };
+    tokenRef.current = token;
+    setIsRunning(true);
+    setPaused(false);
+    const rand = createMulberry32(runSeed >>> 0);
+    const start = workRoot.N;
+    let n = 0;
+    try {
+      while (n < budget && !token.cancelled) {
+        if (token.paused) {
+          await sleep(PAUSE_POLL_MS);
+          continue;
+        }
+        const end = Math.min(budget, n + CHUNK);
+        for (; n < end; n++) runIteration(Ultimate, workRoot, { kind: "ucb1", C }, rand);
+        setRoot({ ...workRoot });
+        setDone(workRoot.N - start);
+        await sleep(0);
+      }
+    } finally {
+      // a newer search may already own the controls
+      if (tokenRef.current === token) {
+        setIsRunning(false);
+        setPaused(false);
+      }
+    }
+    return !token.cancelled;
+  };
+
+  // play vs MCTS: commit a move and promote its subtree so the search effort carries over
+  const commitMove = (r: TreeNode, move: number, byAgent: boolean, thought: number) => {
+    const next = promoteChild(Ultimate, r, move);
+    setHistory((h) => [...h, { player: r.toMove, move, byAgent, thought, inherited: next.N }]);
+    setState(next.state);
+    setRoot(next);
+    setDone(0);
+    return next;
+  };
+
+  const agentTurn = async (r: TreeNode, ply: number) => {
+    if (!(await search(r, iters, seed + ply))) return;
+    const move = mostVisitedMove(r);
+    if (move !== null) commitMove(r, move, true, iters);
+  };
+
+  const newGame = (key: string, side: Player) => {
+    stopSearch();
+    const s = PRESETS.find((x) => x.key === key)!.state;
+    const r = makeNode(Ultimate, s);
+    setState(s);
+    setRoot(r);
+    setDone(0);
+    setHistory([]);
+    if (r.terminal === null && r.toMove !== side) void agentTurn(r, 0);
+  };
+
+  const handlePreset = (key: string) => {
+    if (isRunning) return;
+    setPresetKey(key);
+    if (playMode) newGame(key, humanSide);
+    else resetTreeTo(PRESETS.find((x) => x.key === key)!.state);
+  };
+
+  const resetPosition = () => {
+    stopSearch();
+    if (playMode) newGame(presetKey, humanSide);
+    else resetTreeTo(PRESETS.find((x) => x.key === presetKey)!.state);
+  };
+
+  const togglePlayMode = (on: boolean) => {
+    if (isRunning) return;
+    setPlayMode(on);
+    if (on) newGame(presetKey, humanSide);
+    else {
+      setHistory([]);
+      resetTreeTo(state);
+    }
+  };
+
+  const chooseSide = (side: Player) => {
+    if (isRunning) return;
+    setHumanSide(side);
+    newGame(presetKey, side);
+  };
+
+  const placeMark = (move: number) => {
+    if (terminal || isRunning || state.cells[move] || !active.has(Math.floor(move / 9))) return;
+    if (playMode) {
+      if (currentPlayer !== humanSide) return;
+      const next = commitMove(root, move, false, 0);
+      if (next.terminal === null) void agentTurn(next, history.length + 1);
+      return;
+    }
+    resetTreeTo(Ultimate.applyMove(state, move));
+  };
+
+  // fresh search from the current position
+  const runSearch = async () => {
+    if (terminal || isRunning) return;
+    const r = makeNode(Ultimate, state);
+    setRoot(r);
+    setDone(0);
+    await search(r, iters, seed);
+  };
+
+  const onPauseResume = () => {
+    if (!isRunning) return;
+    tokenRef.current.paused = !paused;
+    setPaused(!paused);
+  };
+
+  const bestMove: number | null = useMemo(() => mostVisitedMove(root), [root]);
+
+  const maxN = useMemo(() => {
+    const arr = [...root.children.values()].map((c) => c.N);
+    return arr.length ? Math.max(...arr) : 0;
+  }, [root]);
+
+  const playRecommended = () => {
+    if (bestMove !== null) resetTreeTo(Ultimate.applyMove(state, bestMove));
+  };
+
+  const agentToMove = playMode && terminal === null && currentPlayer !== humanSide;
+  const preset = PRESETS.find((p) => p.key === presetKey)!;
+
+  return (
+    <div className="w-full text-slate-800 p-4 sm:p-6 md:p-8">
+      <div className="max-w-5xl mx-auto grid gap-6 md:gap-8">
+
+        {/* header */}
+        <header>
+          <h2 className="text-2xl sm:text-3xl font-bold tracking-tight">Ultimate Tic-Tac-Toe with UCT</h2>
+          <p className="mt-2 text-sm sm:text-base text-slate-700">
+            Nine tic-tac-toe boards inside a big one. The cell you play in <em>sends</em> your opponent to the matching board: playing the top-right
+            cell of any board forces the reply into the top-right board. Winning a small board claims that square of the big board, and three claimed
+            squares in a row win the game; if you are sent to a board that is already decided, you may play in any open board. With up to 81 moves
+            and no useful way to score a position by hand, this is the kind of game MCTS was made for: plain 3×3 is solved in a blink, this is not.
+          </p>
+
+          {/* "how to use" box */}
+          <section className="mt-3 rounded-2xl border border-violet-200 bg-violet-50 text-violet-900 p-4 sm:p-5">
+            <h3 className="text-base sm:text-lg font-semibold">How to use this demo</h3>
+            <ol className="mt-2 list-decimal ml-5 text-sm sm:text-base space-y-1">
+              <li>Pick a <span className="font-medium">preset</span> or click a cell in a highlighted (blue) board to play a move for the side to move.</li>
+              <li>Set <span className="font-medium">Iterations</span>, <span className="font-medium">Seed</span> and <span className="font-medium">C</span>, then click <em>Run search</em>.
+                <span className="font-medium"> Pause/Resume</span> and <span className="font-medium">Cancel</span> work as in Part 2.</li>
+              <li>Every legal cell shows its share of root visits as green shading with the visit count; the violet cell is the recommendation.</li>
+              <li>Run the empty board at 500 and at 10000 iterations: with 81 root moves, a small budget barely tries each one.</li>
+              <li>Tick <span className="font-medium">Play vs MCTS</span> to play a full game. The agent thinks for the chosen number of iterations per move and keeps
+                the subtree of the move actually played, so the record shows how many visits each turn inherited.</li>
+            </ol>
+          </section>
+        </header>
+
+        <section className="grid md:grid-cols-3 gap-6 items-start">
+          {/* left: board + controls */}
+          <div ref={leftPanelRef} className="md:col-span-2 grid gap-4 p-4 rounded-2xl bg-white shadow-sm">
+
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="text-sm font-medium">Preset:</label>
+              <select
+                className="px-3 py-2 rounded-xl border border-slate-300 bg-white"
+                value={presetKey}
+                onChange={(e) => handlePreset(e.target.value)}
+                disabled={isRunning}
+              >
+                {PRESETS.map((p) => (
+                  <option key={p.key} value={p.key}>{p.name}</option>
+                ))}
+              </select>
+
+              <div className="flex items-center gap-2 ml-2">
+                <label htmlFor="uttSeed" className="text-sm text-slate-600">Randomness Seed:</label>
+                <input
+                  id="uttSeed"
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(Number.isFinite(parseInt(e.target.value)) ? parseInt(e.target.value) : 0)}
+                  className="w-28 px-2 py-1 border border-slate-300 rounded-lg"
+                />
+              </div>
+
+              <button
+                onClick={resetPosition}
+                className="ml-auto px-3 py-1.5 rounded-lg bg-rose-500 text-white font-medium shadow hover:shadow-md hover:bg-rose-600"
+              >
+                Reset
+              </button>
+            </div>
+
+            {/* play vs MCTS row */}
+            <div className="flex flex-wrap items-center gap-3 p-3 rounded-xl border border-slate-200 bg-slate-50">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={playMode}
+                  onChange={(e) => togglePlayMode(e.target.checked)}
+                  disabled={isRunning}
+                />
+                Play vs MCTS
+              </label>
+              {playMode && (
+                <div className="flex items-center gap-2">
+                  <label htmlFor="uttSide" className="text-sm text-slate-600">You play:</label>
+                  <select
+                    id="uttSide"
+                    className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                    value={humanSide}
+                    onChange={(e) => chooseSide(e.target.value as Player)}
+                    disabled={isRunning}
+                  >
+                    <option value="X">X</option>
+                    <option value="O">O</option>
+                  </select>
+                </div>
+              )}
+              {playMode && terminal === null && (
+                <span className="text-sm text-slate-600">
+                  {agentToMove ? (isRunning ? "MCTS is thinking…" : "MCTS to move") : "Your move"}
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={agentToMove ? () => void agentTurn(root, history.length) : runSearch}
+                className="px-3 py-1.5 rounded-lg bg-emerald-500 text-white font-medium shadow hover:shadow-md hover:bg-emerald-600 disabled:opacity-50"
+                disabled={isRunning || !!terminal || (playMode && !agentToMove)}
+              >
+                {isRunning ? `Running… ${done}/${iters}` : agentToMove ? `Let MCTS move (${iters} iters)` : `Run search (${iters} iters)`}
+              </button>
+              <button
+                onClick={onPauseResume}
+                className="px-3 py-1.5 rounded-lg bg-amber-500 text-white font-medium shadow hover:shadow-md hover:bg-amber-600 disabled:opacity-40"
+                disabled={!isRunning}
+              >
+                {paused ? "Resume" : "Pause"}
+              </button>
+              <button
+                onClick={stopSearch}
+                className="px-3 py-1.5 rounded-lg bg-rose-500 text-white font-medium shadow hover:shadow-md hover:bg-rose-600 disabled:opacity-40"
+                disabled={!isRunning}
+              >
+                Cancel
+              </button>
+              {!playMode && (
+                <button
+                  onClick={playRecommended}
+                  className="px-3 py-1.5 rounded-lg bg-violet-600 text-white font-medium shadow hover:shadow-md hover:bg-violet-700 disabled:opacity-40"
+                  disabled={isRunning || bestMove === null || !!terminal}
+                >
+                  Play recommended
+                </button>
+              )}
+              <span className="ml-auto text-sm">
+                To move:{" "}
+                <span className={classNames("font-semibold", currentPlayer === "X" ? "text-indigo-600" : "text-pink-600")}>{currentPlayer}</span>
+              </span>
+            </div>
+
+            <p className="text-xs text-slate-500">{preset.note}</p>
+
+            {/* nine sub-boards with the visit heatmap */}
+            <div className="grid grid-cols-3 gap-2 p-2 rounded-2xl bg-slate-200 w-max">
+              {Array.from({ length: 9 }, (_, sub) => {
+                const owner = state.meta[sub];
+                return (
+                  <div
+                    key={sub}
+                    className={classNames(
+                      "relative grid grid-cols-3 gap-0.5 p-1 rounded-xl bg-white",
+                      active.has(sub) && "ring-4 ring-sky-400",
+                      winLine.has(sub) && "ring-4 ring-emerald-500"
+                    )}
+                  >
+                    {Array.from({ length: 9 }, (_, i) => {
+                      const m = sub * 9 + i;
+                      const v = state.cells[m];
+                      const N = root.children.get(m)?.N ?? 0;
+                      const alpha = maxN > 0 ? (N / maxN) * 0.6 : 0;
+                      return (
+                        <button
+                          key={m}
+                          onClick={() => placeMark(m)}
+                          className={classNames(
+                            "relative w-9 h-9 sm:w-10 sm:h-10 grid place-items-center rounded-md border text-lg font-semibold",
+                            m === state.last ? "border-amber-400 bg-amber-50" : "border-slate-200",
+                            bestMove === m && "ring-2 ring-violet-600",
+                            v === "X" ? "text-indigo-600" : "text-pink-600"
+                          )}
+                          aria-label={`Cell ${cellLabel(m)}`}
+                        >
+                          <div className="absolute inset-0 rounded-md pointer-events-none" style={{ backgroundColor: `rgba(16,185,129,${alpha})` }} />
+                          {N > 0 && <span className="absolute top-0 left-0.5 text-[9px] font-semibold text-slate-800">{N}</span>}
+                          <span className="relative z-10">{v ?? ""}</span>
+                        </button>
+                      );
+                    })}
+                    {owner && (
+                      <div
+                        className={classNames(
+                          "absolute inset-0 grid place-items-center rounded-xl bg-white/75 text-6xl font-bold pointer-events-none",
+                          owner === "X" ? "text-indigo-600" : owner === "O" ? "text-pink-600" : "text-slate-400"
+                        )}
+                      >
+                        {owner === "D" ? "–" : owner}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* C and iterations */}
+            <div className="mt-2 grid gap-4">
+              <div className="grid gap-1">
+                <label className="text-xs uppercase tracking-wide text-slate-500">Exploration constant C (higher = more exploration)</label>
+                <div className="grid grid-cols-[1fr_auto] items-center gap-3">
+                  <input type="range" min={0} max={10} step={0.05} value={C} onChange={(e) => setC(parseFloat(e.target.value))} className="w-full" />
+                  <input
+                    type="number"
+                    value={C}
+                    step={0.05}
+                    min={0}
+                    max={10}
+                    onChange={(e) => setC(Math.max(0, Math.min(10, parseFloat(e.target.value || "0"))))}
+                    className="w-24 px-2 py-1 border border-slate-300 rounded-lg"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-1">
+                <label className="text-xs uppercase tracking-wide text-slate-500">Iterations per search (and per agent move)</label>
+                <div className="grid grid-cols-[1fr_auto] items-center gap-3">
+                  <input
+                    type="range"
+                    min={100}
+                    max={20000}
+                    step={100}
+                    value={iters}
+                    onChange={(e) => setIters(parseInt(e.target.value))}
+                    className="w-full"
+                  />
+                  <input
+                    type="number"
+                    value={iters}
+                    min={10}
+                    max={50000}
+                    step={100}
+                    onChange={(e) => setIters(Math.max(10, Math.min(50000, parseInt(e.target.value || "0"))))}
+                    className="w-24 px-2 py-1 border border-slate-300 rounded-lg"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {terminal && (
+              <div className="mt-2 p-3 rounded-xl bg-amber-50 text-amber-800 border border-amber-200 text-sm">
+                This position is terminal: {terminal === "D" ? "Draw" : `${terminal} wins`}
+                {playMode && terminal !== "D" && (terminal === humanSide ? " — you beat MCTS" : " — MCTS wins")}.
+              </div>
+            )}
+          </div>
+
+          {/* right: stats */}
+          <aside className="p-4 rounded-2xl bg-white shadow-sm md:sticky md:top-6 flex flex-col" style={leftHeight ? { height: leftHeight } : undefined}>
+            <div className="flex flex-wrap items-center gap-2">
+              <h3 className="text-lg font-semibold">Results</h3>
+              {bestMove !== null && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-violet-100 text-violet-800 border border-violet-200">
+                  Recommended: {cellLabel(bestMove)}
+                </span>
+              )}
+              <span className="text-xs px-2 py-1 rounded-lg bg-slate-100 text-slate-700 border border-slate-200">
+                Root visits: {root.N}
+              </span>
+              {paused && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-amber-50 text-amber-700 border border-amber-200">Paused</span>
+              )}
+            </div>
+
+            {root.children.size === 0 && <p className="mt-2 text-sm text-slate-600">Run a search to see per-cell estimates.</p>}
+            {root.children.size > 0 && (
+              <p className="mt-2 text-xs text-slate-500">
+                Q and W/D/L are for {root.toMove}; {otherPlayer(root.toMove)}'s replies deeper in the tree are chosen to hurt {root.toMove}.
+                Cells are numbered (row, column) on the full 9×9 grid.
+              </p>
+            )}
+
+            <div className="mt-3 grid gap-3 flex-1 overflow-auto">
+              {[...root.children.entries()]
+                .sort((a, b) => b[1].N - a[1].N)
+                .map(([m, ch]) => {
+                  const Q = ch.N ? ch.W / ch.N : 0;
+                  const pct = maxN > 0 ? Math.round((ch.N / maxN) * 100) : 0;
+                  return (
+                    <div key={m} className={classNames("p-3 rounded-xl border", bestMove === m ? "border-violet-300 bg-violet-50" : "border-slate-200")}>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span className="text-sm font-medium">Cell {cellLabel(m)}</span>
+                        <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">Visits: {ch.N}</span>
+                        <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">Q for {root.toMove}: {Q.toFixed(3)}</span>
+                        <span className="ml-auto text-xs text-slate-600">W/D/L: {ch.wins}/{ch.draws}/{ch.losses}</span>
+                      </div>
+                      <div className="mt-2 h-2.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-emerald-500" style={{ width: `${pct}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+            </div>
+          </aside>
+        </section>
+
+        {/* game record for play vs MCTS */}
+        {playMode && (
+          <section className="p-4 rounded-2xl bg-white shadow-sm">
+            <h3 className="text-lg font-semibold">Game record</h3>
+            {history.length === 0 && <p className="mt-2 text-sm text-slate-600">No moves yet.</p>}
+            <ol className="mt-2 grid gap-1 text-sm">
+              {history.map((h, i) => (
+                <li key={i} className="flex flex-wrap items-center gap-3">
+                  <span className="w-6 text-right text-slate-500">{i + 1}.</span>
+                  <span className={classNames("font-semibold", h.player === "X" ? "text-indigo-600" : "text-pink-600")}>{h.player}</span>
+                  <span>{cellLabel(h.move)}</span>
+                  <span className="text-xs px-2 py-0.5 rounded-md bg-slate-100 text-slate-700 border border-slate-200">{h.byAgent ? "MCTS" : "You"}</span>
+                  {h.byAgent && <span className="text-xs text-slate-600">thought {h.thought} iters</span>}
+                  <span className="text-xs text-slate-600">inherited {h.inherited} visits</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  chooseMove,
+  createMulberry32,
+  scoreOf,
+  simulateMove,
+  statsFromMoveStats,
+  type FinalMoveRule,
+  type Game,
+  type RolloutPolicy,
+} from "./mcts";
+import { CLASSIC, indexToCoord, type Board, type BoardSpec } from "./tictactoe";
+
+function classNames(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const BINS = 20;
+const YIELD_MS = 30;
+
+type Experiment = {
+  seeds: number;
+  sims: number;
+  picks: Map<number | null, number>;   // recommended move -> how many seeds chose it
+  scores: Map<number, number[]>;       // move (a class representative) -> its score under each seed
+  classSize: Map<number, number>;      // representative -> moves in its symmetry class
+};
+
+function spread(xs: number[]) {
+  const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const sd = Math.sqrt(xs.reduce((a, b) => a + (b - mean) ** 2, 0) / xs.length);
+  return { mean, sd, min: Math.min(...xs), max: Math.max(...xs) };
+}
+
+function histogram(xs: number[]) {
+  const bins = new Array(BINS).fill(0);
+  for (const x of xs) bins[Math.min(BINS - 1, Math.floor(x * BINS))]++;
+  return bins;
+}
+
+// repeat Part1's evaluation under K seeds to measure how much the answer moves around.
+// `classes` are Part1's symmetry classes (one move each with symmetry off); as there, only the
+// first move of a class is simulated, with the playouts of the whole class
+export default function VarianceExperiment({
+  game,
+  board,
+  classes,
+  simsPerMove,
+  rolloutPolicy,
+  seed,
+  finalRule,
+  secureA,
+  spec = CLASSIC,
+}: {
+  game: Game<Board, number>;
+  board: Board;
+  classes: number[][];
+  simsPerMove: number;
+  rolloutPolicy: RolloutPolicy;
+  seed: number;
+  finalRule: FinalMoveRule;
+  secureA: number;
+  spec?: BoardSpec;
+}) {
+  const [seeds, setSeeds] = useState(50);
+  const [done, setDone] = useState<number | null>(null);   // progress while running
+  const [result, setResult] = useState<Experiment | null>(null);
+  const cancelRef = useRef(false);
+
+  // stop when the component goes away (the parent remounts it for a new position)
+  useEffect(() => () => { cancelRef.current = true; }, []);
+
+  const run = async () => {
+    cancelRef.current = false;
+    const picks = new Map<number | null, number>();
+    const scores = new Map<number, number[]>(classes.map((cls) => [cls[0], []]));
+    let sliceStart = performance.now();
+    setDone(0);
+    for (let k = 0; k < seeds; k++) {
+      if (cancelRef.current) break;
+      const rand = createMulberry32((seed + k) >>> 0);
+      const stats = classes.map(([m, ...mirrors]) => {
+        const st = simulateMove(game, board, m, simsPerMove * (1 + mirrors.length), rand, rolloutPolicy);
+        scores.get(m)!.push(scoreOf(st));
+        return statsFromMoveStats(m, st);
+      });
+      const pick = chooseMove(stats, finalRule, secureA);
+      picks.set(pick, (picks.get(pick) ?? 0) + 1);
+      if (performance.now() - sliceStart > YIELD_MS) {
+        setDone(k + 1);
+        await new Promise((r) => setTimeout(r, 0));
+        sliceStart = performance.now();
+      }
+    }
+    if (!cancelRef.current) {
+      setResult({ seeds, sims: simsPerMove, picks, scores, classSize: new Map(classes.map((cls) => [cls[0], cls.length])) });
+    }
+    setDone(null);
+  };
+
+  const running = done !== null;
+  const maxPick = result ? Math.max(...result.picks.values()) : 0;
+
+  return (
+    <section className="p-4 rounded-2xl bg-white shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-lg font-semibold">Variance experiment</h3>
+        <label htmlFor="seeds" className="text-sm text-slate-600">Seeds (K):</label>
+        <input
+          id="seeds"
+          type="number"
+          min={2}
+          max={1000}
+          value={seeds}
+          onChange={(e) => setSeeds(Math.min(1000, Math.max(2, parseInt(e.target.value || "0"))))}
+          className="w-20 px-2 py-1 border border-slate-300 rounded-lg"
+          disabled={running}
+        />
+        <button
+          className="px-3 py-1.5 rounded-lg bg-sky-500 text-white text-sm font-medium shadow hover:shadow-md hover:bg-sky-600 disabled:opacity-50"
+          onClick={run}
+          disabled={running || classes.length === 0}
+        >
+          {running ? `Running… ${done}/${seeds}` : `Run ${seeds} seeds`}
+        </button>
+        {running && (
+          <button
+            className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-sm hover:bg-slate-50"
+            onClick={() => { cancelRef.current = true; }}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        Repeats the whole evaluation with seeds {seed}…{seed + seeds - 1} at the current simulations per move, rollout policy, final move rule
+        and symmetry setting.
+        Rerun at a higher simulation count to watch the recommendations concentrate and the score histograms narrow.
+      </p>
+
+      {result && (
+        <div className="mt-3 grid gap-6 md:grid-cols-2">
+          <div>
+            <h4 className="text-sm font-medium">Recommended move across {result.seeds} seeds ({result.sims} sims/move)</h4>
+            <div className="mt-2 grid gap-1.5">
+              {[...result.picks.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .map(([m, c]) => (
+                  <div key={String(m)} className="grid grid-cols-[5rem_1fr_3rem] items-center gap-2 text-xs">
+                    <span>{m === null ? "no pick" : indexToCoord(m, spec)}</span>
+                    <div className="h-2.5 bg-gray-200 rounded-full overflow-hidden">
+                      <div className={classNames("h-full", c === maxPick ? "bg-emerald-500" : "bg-sky-400")} style={{ width: `${(100 * c) / result.seeds}%` }} />
+                    </div>
+                    <span className="text-right text-slate-600">{Math.round((100 * c) / result.seeds)}%</span>
+                  </div>
+                ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium">Score per move across seeds</h4>
+            <div className="mt-2 grid gap-2">
+              {[...result.scores.entries()].map(([m, xs]) => {
+                const s = spread(xs);
+                const bins = histogram(xs);
+                const top = Math.max(...bins);
+                return (
+                  <div key={m} className="grid grid-cols-[5rem_1fr] items-end gap-2 text-xs">
+                    <div>
+                      <div className="font-medium">
+                        {indexToCoord(m, spec)}
+                        {(result.classSize.get(m) ?? 1) > 1 && <span className="text-slate-500"> +{result.classSize.get(m)! - 1} mirrored</span>}
+                      </div>
+                      <div className="text-slate-500">sd {s.sd.toFixed(3)}</div>
+                    </div>
+                    <div>
+                      <div className="flex items-end gap-px h-8 border-b border-slate-300" title={`mean ${s.mean.toFixed(3)}, range ${s.min.toFixed(2)}–${s.max.toFixed(2)}`}>
+                        {bins.map((b, i) => (
+                          <div key={i} className="flex-1 bg-sky-400" style={{ height: `${top ? (100 * b) / top : 0}%` }} />
+                        ))}
+                      </div>
+                      <div className="flex justify-between text-[10px] text-slate-400">
+                        <span>0</span>
+                        <span>mean {s.mean.toFixed(3)}</span>
+                        <span>1</span>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,64 @@
+import { sampleBeta, type MoveStats, type RNG } from "./mcts";
+
+// uncertainty of Part1's per-move scores (win = 1, draw = 0.5, loss = 0)
+
+export const CONFIDENCE_LEVELS: Record<string, number> = {
+  "90%": 1.645,
+  "95%": 1.96,
+  "99%": 2.576,
+};
+
+export function scoreMoments({ wins, draws, losses }: MoveStats) {
+  const n = wins + draws + losses;
+  if (n === 0) return { n, mean: 0, variance: 0 };
+  const mean = (wins + 0.5 * draws) / n;
+  // per-playout variance of the 1/0.5/0 reward
+  const variance = (wins + 0.25 * draws) / n - mean * mean;
+  return { n, mean, variance };
+}
+
+// Wilson interval, treating the score as a proportion; stays inside [0, 1] and is
+// sensible even when every playout had the same result
+export function wilsonInterval(stats: MoveStats, z = 1.96): [number, number] {
+  const { n, mean } = scoreMoments(stats);
+  if (n === 0) return [0, 1];
+  const z2 = z * z;
+  const centre = (mean + z2 / (2 * n)) / (1 + z2 / n);
+  const half = (z / (1 + z2 / n)) * Math.sqrt((mean * (1 - mean)) / n + z2 / (4 * n * n));
+  return [Math.max(0, centre - half), Math.min(1, centre + half)];
+}
+
+// chance that each move has the highest true score: draw win/draw/loss rates from a
+// Dirichlet(1 + wins, 1 + draws, 1 + losses) posterior per move and count who comes out on top
+export function probabilityBest<Move>(stats: Array<{ move: Move } & MoveStats>, rand: RNG, samples = 2000): Map<Move, number> {
+  const tally = new Map<Move, number>(stats.map((s) => [s.move, 0]));
+  if (stats.length === 0) return tally;
+  for (let i = 0; i < samples; i++) {
+    let best = stats[0].move;
+    let bestScore = -Infinity;
+    for (const s of stats) {
+      const pw = sampleBeta(1 + s.wins, 2 + s.draws + s.losses, rand);
+      const pd = (1 - pw) * sampleBeta(1 + s.draws, 1 + s.losses, rand);
+      const score = pw + 0.5 * pd;
+      if (score > bestScore) {
+        bestScore = score;
+        best = s.move;
+      }
+    }
+    tally.set(best, tally.get(best)! + 1);
+  }
+  for (const [m, c] of tally) tally.set(m, c / samples);
+  return tally;
+}
+
+// playouts per move needed before the observed gap between two moves stands out from the
+// noise at level z (normal approximation); Infinity when the gap is zero
+export function simsNeeded(a: MoveStats, b: MoveStats, z: number): number {
+  const ma = scoreMoments(a);
+  const mb = scoreMoments(b);
+  const gap = Math.abs(ma.mean - mb.mean);
+  if (gap === 0) return Infinity;
+  // an all-identical sample says nothing about spread, so fall back to the worst case
+  const spread = ma.variance + mb.variance || 0.5;
+  return Math.ceil((z * z * spread) / (gap * gap));
+}
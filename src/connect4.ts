@@ -0,0 +1,96 @@
+import type { Game, Outcome, Player } from "./mcts";
+
+// 7 columns x 6 rows, row-major with row 0 at the top
+export const COLS = 7;
+export const ROWS = 6;
+
+export type Cell = Player | null;
+export type Board = Cell[];   // length 42
+
+export function emptyBoard(): Board {
+  return new Array<Cell>(COLS * ROWS).fill(null);
+}
+
+// parse rows written top to bottom, e.g. ".......", "...X...", using X / O / .
+export function boardFromRows(rows: string[]): Board {
+  const b = emptyBoard();
+  rows.forEach((row, r) => {
+    for (let c = 0; c < COLS; c++) {
+      const ch = row[c];
+      b[r * COLS + c] = ch === "X" || ch === "O" ? ch : null;
+    }
+  });
+  return b;
+}
+
+// lowest empty row in a column, or -1 when the column is full
+export function dropRow(board: Board, col: number): number {
+  for (let r = ROWS - 1; r >= 0; r--) {
+    if (!board[r * COLS + col]) return r;
+  }
+  return -1;
+}
+
+export function legalMoves(board: Board): number[] {
+  const moves: number[] = [];
+  for (let c = 0; c < COLS; c++) if (!board[c]) moves.push(c);
+  return moves;
+}
+
+export function nextPlayer(board: Board): Player {
+  let x = 0, o = 0;
+  for (const c of board) {
+    if (c === "X") x++;
+    else if (c === "O") o++;
+  }
+  return x === o ? "X" : "O";
+}
+
+const DIRECTIONS = [
+  [0, 1],    // horizontal
+  [1, 0],    // vertical
+  [1, 1],    // diagonal down-right
+  [1, -1],   // diagonal down-left
+];
+
+// cells of the first four-in-a-row found, or null
+export function winningLine(board: Board): number[] | null {
+  for (let r = 0; r < ROWS; r++) {
+    for (let c = 0; c < COLS; c++) {
+      const p = board[r * COLS + c];
+      if (!p) continue;
+      for (const [dr, dc] of DIRECTIONS) {
+        const line = [r * COLS + c];
+        for (let k = 1; k < 4; k++) {
+          const rr = r + dr * k, cc = c + dc * k;
+          if (rr < 0 || rr >= ROWS || cc < 0 || cc >= COLS || board[rr * COLS + cc] !== p) break;
+          line.push(rr * COLS + cc);
+        }
+        if (line.length === 4) return line;
+      }
+    }
+  }
+  return null;
+}
+
+export function checkWinner(board: Board): Outcome | null {
+  const line = winningLine(board);
+  if (line) return board[line[0]] as Outcome;
+  if (board.every(Boolean)) return "D";
+  return null;
+}
+
+export function columnLabel(col: number): string {
+  return `column ${col + 1}`;
+}
+
+export const ConnectFour: Game<Board, number> = {
+  legalMoves,
+  applyMove(board, col) {
+    const b = board.slice();
+    b[dropRow(board, col) * COLS + col] = nextPlayer(board);
+    return b;
+  },
+  outcome: checkWinner,
+  toMove: nextPlayer,
+};
@@ -0,0 +1,52 @@
+import { chooseMove, childStats, policyScore, type FinalMoveRule, type Node, type SelectionPolicy } from "./mcts";
+
+// root-child statistics sampled over a search, for Part2's convergence charts
+export type ChildPoint = { move: number; N: number; Q: number; score: number };
+export type ConvergencePoint = { iteration: number; children: ChildPoint[] };
+
+export type ConvergenceSeries = {
+  stride: number;                // keep one point every `stride` iterations
+  points: ConvergencePoint[];
+  best: number | null;           // current recommendation
+  lastChange: number | null;     // iteration at which it last changed
+};
+
+export const MAX_POINTS = 400;
+
+export function emptySeries(): ConvergenceSeries {
+  return { stride: 1, points: [], best: null, lastChange: null };
+}
+
+export function cloneSeries(s: ConvergenceSeries): ConvergenceSeries {
+  return { ...s, points: s.points.slice() };
+}
+
+// call after every iteration; the recommendation is tracked exactly, points are thinned out
+// by doubling the stride whenever the buffer fills up
+export function recordPoint<State>(
+  series: ConvergenceSeries,
+  root: Node<State, number>,
+  policy: SelectionPolicy,
+  rule: FinalMoveRule,
+  secureA: number
+) {
+  const iteration = root.N;
+  const best = chooseMove(childStats(root), rule, secureA);
+  if (best !== series.best) {
+    series.best = best;
+    series.lastChange = iteration;
+  }
+  if (iteration % series.stride !== 0) return;
+
+  const children = [...root.children.entries()].map(([move, ch]) => ({
+    move,
+    N: ch.N,
+    Q: ch.N ? ch.W / ch.N : 0,
+    score: policyScore(policy, root, ch, move),
+  }));
+  series.points.push({ iteration, children });
+  if (series.points.length > MAX_POINTS) {
+    series.stride *= 2;
+    series.points = series.points.filter((p) => p.iteration % series.stride === 0);
+  }
+}
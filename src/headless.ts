@@ -0,0 +1,90 @@
+import {
+  childStats,
+  chooseMove,
+  createMulberry32,
+  makeNode,
+  runIteration,
+  simulateMove,
+  statsFromMoveStats,
+  type ChildStats,
+  type FinalMoveRule,
+  type Outcome,
+  type Player,
+  type RolloutPolicy,
+} from "./mcts";
+import { checkWinner, firstMover, indexToCoord, legalMoves, mnkGame, type Board, type BoardSpec } from "./tictactoe";
+import { formatPosition } from "./position";
+
+// the searches of Part1 and Part2 without the UI, for scripted experiments (see scripts/mcts-cli.ts).
+// Same seed and settings give the same numbers as the page.
+
+export type HeadlessRun =
+  | { algo: "flat"; sims: number }                 // Part1: `sims` random playouts after every legal move
+  | { algo: "uct"; iterations: number; C: number }; // Part2: UCB1 tree search
+
+export type HeadlessOptions = HeadlessRun & {
+  board: Board;
+  side: Player;   // to move; with as many X as O this is also who opened the game
+  spec: BoardSpec;
+  seed: number;
+  rolloutPolicy: RolloutPolicy;
+  rule: FinalMoveRule;
+  secureA: number;
+};
+
+export type HeadlessMove = { move: number; cell: string } & ChildStats<number> & { Q: number };
+
+export type HeadlessResult = HeadlessRun & {
+  spec: BoardSpec;
+  position: string;
+  toMove: Player;
+  seed: number;
+  rolloutPolicy: RolloutPolicy;
+  rule: FinalMoveRule;
+  outcome: Outcome | null;   // set when the position is already over; then there are no moves
+  moves: HeadlessMove[];   // by move index; N/W/Q for the player to move
+  recommended: { move: number; cell: string } | null;
+};
+
+function search(opts: HeadlessOptions): ChildStats<number>[] {
+  const game = mnkGame(opts.spec, false, firstMover(opts.board, opts.side));
+  if (opts.algo === "flat") {
+    // one generator shared across moves in board order, like Part1's Run
+    const rand = createMulberry32(opts.seed >>> 0);
+    return legalMoves(opts.board).map((m) => statsFromMoveStats(m, simulateMove(game, opts.board, m, opts.sims, rand, opts.rolloutPolicy)));
+  }
+  const rand = createMulberry32(opts.seed >>> 0);
+  const root = makeNode(game, opts.board);
+  const policy = { kind: "ucb1", C: opts.C } as const;
+  for (let i = 0; i < opts.iterations; i++) runIteration(game, root, policy, rand, "negamax", opts.rolloutPolicy);
+  return childStats(root);
+}
+
+export function runHeadless(opts: HeadlessOptions): HeadlessResult {
+  // a finished game has nothing to search, whichever algorithm was asked for
+  const outcome = checkWinner(opts.board, opts.spec);
+  const stats = outcome ? [] : search(opts).sort((a, b) => a.move - b.move);
+  const best = chooseMove(stats, opts.rule, opts.secureA);
+  const run: HeadlessRun = opts.algo === "flat" ? { algo: "flat", sims: opts.sims } : { algo: "uct", iterations: opts.iterations, C: opts.C };
+  return {
+    ...run,
+    spec: opts.spec,
+    position: formatPosition(opts.board, opts.spec, opts.side),
+    toMove: opts.side,
+    seed: opts.seed,
+    rolloutPolicy: opts.rolloutPolicy,
+    rule: opts.rule,
+    outcome,
+    moves: stats.map(({ move, N, W, wins, draws, losses }) => ({
+      move,
+      cell: indexToCoord(move, opts.spec),
+      N,
+      W,
+      Q: N ? W / N : 0,
+      wins,
+      draws,
+      losses,
+    })),
+    recommended: best === null ? null : { move: best, cell: indexToCoord(best, opts.spec) },
+  };
+}
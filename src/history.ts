@@ -0,0 +1,27 @@
+import { undoIteration, type BackupMode, type IterationRecord, type Node } from "./mcts";
+import type { Board } from "./tictactoe";
+
+// Part2's log of recent iterations, for the timeline scrubber
+export type IterationLog = IterationRecord<number>[];
+export type ReplayPhase = "selection" | "expansion" | "simulation" | "backprop";
+export const REPLAY_PHASES: ReplayPhase[] = ["selection", "expansion", "simulation", "backprop"];
+
+export const MAX_LOG = 2000;   // older iterations fall off the front
+
+// append in place; trims in batches so long runs don't shift the array every iteration
+export function appendRecord(log: IterationLog, rec: IterationRecord<number>) {
+  log.push(rec);
+  if (log.length >= 2 * MAX_LOG) log.splice(0, log.length - MAX_LOG);
+}
+
+// a fresh array of at most MAX_LOG newest records, safe to hand to React or another thread
+export function latest(log: IterationLog): IterationLog {
+  return log.slice(-MAX_LOG);
+}
+
+// a copy of the tree as it was `count` iterations ago (the newest `count` records undone)
+export function rewindTree(root: Node<Board, number>, log: IterationLog, count: number, mode: BackupMode) {
+  const copy = structuredClone(root);
+  for (let i = log.length - 1; i >= log.length - count; i--) undoIteration(copy, log[i], mode);
+  return copy;
+}
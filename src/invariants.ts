@@ -0,0 +1,91 @@
+import type { Node } from "./mcts";
+import { CLASSIC, indexToCoord, type Board, type BoardSpec } from "./tictactoe";
+
+type TreeNode = Node<Board, number>;
+
+// structural checks for Part2's search tree, run after every iteration in debug mode
+// and by scripts/check-invariants.ts
+
+export type InvariantRule = "visits" | "outcomes" | "value" | "untried" | "child-board";
+
+export const INVARIANT_NAMES: Record<InvariantRule, string> = {
+  "visits": "N equals the children's N plus this node's own leaf visit (a search root has none)",
+  "outcomes": "wins + draws + losses equals N",
+  "value": "W lies between 0 and N",
+  "untried": "untried moves are distinct and not already children",
+  "child-board": "a child's board is its parent's plus exactly the move's mark",
+};
+
+export type Violation = { rule: InvariantRule; path: number[]; message: string };   // path: moves from the root
+
+function childBoardError(parent: TreeNode, move: number, child: TreeNode, coord: (i: number) => string): string | null {
+  if (child.state.length !== parent.state.length) return `the child board has ${child.state.length} cells instead of ${parent.state.length}`;
+  const diff: number[] = [];
+  for (let i = 0; i < parent.state.length; i++) if (parent.state[i] !== child.state[i]) diff.push(i);
+  if (diff.length !== 1) return `the boards differ in ${diff.length} cells`;
+  if (diff[0] !== move) return `the edge is ${coord(move)} but the new mark is at ${coord(diff[0])}`;
+  if (parent.state[move] !== null || child.state[move] !== parent.toMove) {
+    return `${coord(move)} should go from empty to ${parent.toMove}`;
+  }
+  return null;
+}
+
+function checkNode(node: TreeNode, exact: boolean, dag: boolean, spec: BoardSpec): Omit<Violation, "path"> | null {
+  const coord = (i: number) => indexToCoord(i, spec);
+  const { N, W, wins, draws, losses } = node;
+  if (wins + draws + losses !== N) {
+    return { rule: "outcomes", message: `wins ${wins} + draws ${draws} + losses ${losses} ≠ N ${N}` };
+  }
+  if (W < 0 || W > N) return { rule: "value", message: `W = ${W} with N = ${N}` };
+
+  // a DAG node also collects visits that came in through its other parents, so the sum only holds for trees.
+  // Every other node takes one visit itself, in the iteration that expanded it; terminal nodes take all of theirs.
+  // `exact` is for a root that was never a leaf: its N is the children's, and they have no other parents even in a DAG.
+  if ((exact || !dag) && node.terminal === null) {
+    let sum = 0;
+    for (const ch of node.children.values()) sum += ch.N;
+    if (N !== sum && (exact || N !== sum + 1)) return { rule: "visits", message: `N = ${N} but the children have ${sum} visits` };
+  }
+
+  const seen = new Set<number>();
+  for (const m of node.untried) {
+    if (seen.has(m)) return { rule: "untried", message: `${coord(m)} is listed twice` };
+    if (node.children.has(m)) return { rule: "untried", message: `${coord(m)} is untried but already a child` };
+    seen.add(m);
+  }
+
+  for (const [m, ch] of node.children) {
+    const err = childBoardError(node, m, ch, coord);
+    if (err) return { rule: "child-board", message: `child ${coord(m)}: ${err}` };
+  }
+  return null;
+}
+
+// breadth-first, so the violation reported is the shallowest one; shared nodes are checked once.
+// Pass `dag` for a transposition search: a subtree promoted out of a DAG shares no nodes any
+// more, but its counts still include visits that came in from the old graph. Pass `promoted` when
+// the root was a child in an earlier search, so it may keep the visit of the iteration that expanded it.
+export function checkTree(root: TreeNode, dag = false, spec: BoardSpec = CLASSIC, promoted = false): Violation | null {
+  const paths = new Map<TreeNode, number[]>([[root, []]]);
+  const queue = [root];
+  for (let i = 0; i < queue.length; i++) {
+    for (const [m, ch] of queue[i].children) {
+      if (paths.has(ch)) {
+        dag = true;
+        continue;
+      }
+      paths.set(ch, [...paths.get(queue[i])!, m]);
+      queue.push(ch);
+    }
+  }
+  for (const node of queue) {
+    const bad = checkNode(node, node === root && !promoted, dag, spec);
+    if (bad) return { ...bad, path: paths.get(node)! };
+  }
+  return null;
+}
+
+export function formatViolation(v: Violation, spec: BoardSpec = CLASSIC): string {
+  const where = v.path.length ? `Root › ${v.path.map((m) => indexToCoord(m, spec)).join(" › ")}` : "Root";
+  return `${where}: ${v.message} (${INVARIANT_NAMES[v.rule]})`;
+}
@@ -0,0 +1,628 @@
+// game-agnostic Monte Carlo search engine
+
+export type Player = "X" | "O";
+export type Outcome = Player | "D";   // D = draw/tie
+
+// anything two-player, alternating and finite can plug in here
+export interface Game<State, Move> {
+  legalMoves(state: State): Move[];
+  applyMove(state: State, move: Move): State;   // must return a new state
+  outcome(state: State): Outcome | null;   // null = game not over
+  toMove(state: State): Player;
+  prior?(state: State, move: Move): number;   // optional move weight for PUCT, need not be normalized
+  distinctMoves?(state: State): Move[];   // optional subset the tree expands, e.g. one move per symmetry class; rollouts still use legalMoves
+}
+
+export function otherPlayer(p: Player): Player {
+  return p === "X" ? "O" : "X";
+}
+
+// seeded RNG using Mulberry32
+export type RNG = () => number;
+export function createMulberry32(seed: number): RNG {
+  let t = (seed >>> 0) || 0;
+  return function () {
+    t += 0x6D2B79F5;
+    let x = Math.imul(t ^ (t >>> 15), 1 | t);
+    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+}
+export function randChoice<T>(arr: T[], rand: RNG): T {
+  return arr[Math.floor(rand() * arr.length)];
+}
+
+export function rewardFrom(outcome: Outcome, player: Player) {
+  if (outcome === "D") return 0.5;
+  return outcome === player ? 1 : 0;
+}
+
+// playout policies: how moves are chosen during the simulation phase
+export type RolloutPolicy = "random" | "win-block" | "weighted" | "minimax";
+
+export const ROLLOUT_NAMES: Record<RolloutPolicy, string> = {
+  "random": "Uniform random",
+  "win-block": "Win if you can, otherwise block",
+  "weighted": "Center/corner-weighted random",
+  "minimax": "Shallow minimax",
+};
+
+// which rule picked a playout move, for the animation
+export type RolloutRule = "random" | "win" | "block" | "weighted" | "minimax";
+
+const MINIMAX_DEPTH = 3;   // plies the minimax playout looks ahead
+
+// value of `state` for `player` from a depth-limited search; unfinished lines count as draws
+function shallowValue<State, Move>(game: Game<State, Move>, state: State, player: Player, depth: number): number {
+  const result = game.outcome(state);
+  if (result) return rewardFrom(result, player);
+  if (depth === 0) return 0.5;
+  const mine = game.toMove(state) === player;
+  let best = mine ? -Infinity : Infinity;
+  for (const m of game.legalMoves(state)) {
+    const v = shallowValue(game, game.applyMove(state, m), player, depth - 1);
+    best = mine ? Math.max(best, v) : Math.min(best, v);
+  }
+  return best;
+}
+
+function winningMoves<State, Move>(game: Game<State, Move>, state: State, moves: Move[]) {
+  const p = game.toMove(state);
+  return moves.filter((m) => game.outcome(game.applyMove(state, m)) === p);
+}
+
+export function rolloutMove<State, Move>(
+  game: Game<State, Move>,
+  state: State,
+  moves: Move[],
+  rand: RNG,
+  policy: RolloutPolicy
+): { move: Move; rule: RolloutRule } {
+  switch (policy) {
+    case "random":
+      return { move: randChoice(moves, rand), rule: "random" };
+    case "win-block": {
+      const wins = winningMoves(game, state, moves);
+      if (wins.length) return { move: randChoice(wins, rand), rule: "win" };
+      // moves after which the opponent has no immediate win
+      const safe = moves.filter((m) => {
+        const next = game.applyMove(state, m);
+        return winningMoves(game, next, game.legalMoves(next)).length === 0;
+      });
+      if (safe.length && safe.length < moves.length) return { move: randChoice(safe, rand), rule: "block" };
+      return { move: randChoice(moves, rand), rule: "random" };
+    }
+    case "weighted": {
+      if (!game.prior) return { move: randChoice(moves, rand), rule: "random" };
+      const weights = moves.map((m) => game.prior!(state, m));
+      let r = rand() * weights.reduce((a, b) => a + b, 0);
+      for (let i = 0; i < moves.length; i++) {
+        r -= weights[i];
+        if (r < 0) return { move: moves[i], rule: "weighted" };
+      }
+      return { move: moves[moves.length - 1], rule: "weighted" };
+    }
+    case "minimax": {
+      const p = game.toMove(state);
+      const values = moves.map((m) => shallowValue(game, game.applyMove(state, m), p, MINIMAX_DEPTH - 1));
+      const best = Math.max(...values);
+      return { move: randChoice(moves.filter((_, i) => values[i] === best), rand), rule: "minimax" };
+    }
+  }
+}
+
+// playout to the end of the game, keeping the moves for visualization
+export type TraceStep<Move> = { move: Move; player: Player; rule: RolloutRule };
+export function rollout<State, Move>(game: Game<State, Move>, state: State, rand: RNG, policy: RolloutPolicy = "random") {
+  let s = state;
+  const trace: TraceStep<Move>[] = [];
+  let result = game.outcome(s);
+  while (!result) {
+    const moves = game.legalMoves(s);
+    if (moves.length === 0) return { outcome: "D" as Outcome, trace, final: s };
+    const { move, rule } = rolloutMove(game, s, moves, rand, policy);
+    trace.push({ move, player: game.toMove(s), rule });
+    s = game.applyMove(s, move);
+    result = game.outcome(s);
+  }
+  return { outcome: result, trace, final: s };
+}
+
+
+
+// flat Monte Carlo: play one move, then random playouts from there
+export type MoveStats = { wins: number; draws: number; losses: number };
+
+export function simulateMove<State, Move>(
+  game: Game<State, Move>,
+  base: State,
+  move: Move,
+  sims: number,
+  rand: RNG,
+  rolloutPolicy: RolloutPolicy = "random"
+): MoveStats {
+  const player = game.toMove(base);
+  const after = game.applyMove(base, move);
+  let wins = 0, draws = 0, losses = 0;
+  for (let k = 0; k < sims; k++) {
+    const { outcome } = rollout(game, after, rand, rolloutPolicy);
+    if (outcome === player) wins++;
+    else if (outcome === "D") draws++;
+    else losses++;
+  }
+  return { wins, draws, losses };
+}
+
+export function scoreOf({ wins, draws, losses }: MoveStats) {
+  const total = wins + draws + losses;
+  return total ? (wins + 0.5 * draws) / total : 0;   // win = 1, draw = 0.5, loss = 0
+}
+
+
+
+// UCT tree search
+export type Node<State, Move> = {
+  state: State;
+  toMove: Player;
+  parent?: Node<State, Move>;
+  moveFromParent: Move | null;
+  children: Map<Move, Node<State, Move>>;
+  untried: Move[];
+  priors: Map<Move, number>;   // prior probability of each move out of this node; per edge, as a shared node has several parents
+  N: number;    // visits
+  W: number;    // total reward, see BackupMode for whose perspective
+  wins: number;
+  draws: number;
+  losses: number;
+  terminal: Outcome | null;
+};
+
+export function makeNode<State, Move>(
+  game: Game<State, Move>,
+  state: State,
+  parent?: Node<State, Move>,
+  moveFromParent: Move | null = null
+): Node<State, Move> {
+  const untried = treeMoves(game, state);
+  return {
+    state,
+    toMove: game.toMove(state),
+    parent,
+    moveFromParent,
+    children: new Map(),
+    untried,
+    priors: priorsOf(game, state, untried),
+    N: 0,
+    W: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    terminal: game.outcome(state),
+  };
+}
+
+function treeMoves<State, Move>(game: Game<State, Move>, state: State) {
+  return game.distinctMoves ? game.distinctMoves(state) : game.legalMoves(state);
+}
+
+function priorsOf<State, Move>(game: Game<State, Move>, state: State, moves: Move[]): Map<Move, number> {
+  const raw = moves.map((m) => (game.prior ? game.prior(state, m) : 1));
+  const total = raw.reduce((a, b) => a + b, 0);
+  return new Map(moves.map((m, i) => [m, total > 0 ? raw[i] / total : 1 / moves.length]));
+}
+
+export function uctValue(parentN: number, child: { N: number; W: number }, C: number) {
+  const q = child.N > 0 ? child.W / child.N : 0;
+  const u = C * Math.sqrt(Math.log(parentN + 1) / (child.N + 1));
+  return q + u;
+}
+
+
+
+// tree policies: how selection trades off good children against unexplored ones
+export type SelectionPolicy =
+  | { kind: "ucb1"; C: number }
+  | { kind: "ucb1-tuned"; C: number }
+  | { kind: "ucb-v"; C: number; c: number }   // C scales the variance term, c the range term
+  | { kind: "puct"; C: number; priors: "uniform" | "game" }
+  | { kind: "epsilon-greedy"; epsilon: number }
+  | { kind: "thompson"; alpha: number; beta: number };   // Beta(alpha, beta) prior on the reward
+
+export const POLICY_NAMES: Record<SelectionPolicy["kind"], string> = {
+  "ucb1": "UCB1 (UCT)",
+  "ucb1-tuned": "UCB1-Tuned",
+  "ucb-v": "UCB-V",
+  "puct": "PUCT with priors",
+  "epsilon-greedy": "ε-greedy",
+  "thompson": "Thompson sampling",
+};
+
+// sample variance of the 1 / 0.5 / 0 rewards behind W
+function rewardVariance(child: { N: number; W: number; wins: number; draws: number }) {
+  if (child.N === 0) return 0.25;
+  const q = child.W / child.N;
+  return Math.max(0, (child.wins + 0.25 * child.draws) / child.N - q * q);
+}
+
+// the value a policy maximizes; for the random policies this is the mean they sample around
+export function policyScore<State, Move>(policy: SelectionPolicy, parent: Node<State, Move>, child: Node<State, Move>, move: Move) {
+  const q = child.N > 0 ? child.W / child.N : 0;
+  const n = Math.max(1, child.N);
+  const ln = Math.log(parent.N + 1);
+  switch (policy.kind) {
+    case "ucb1":
+      return uctValue(parent.N, child, policy.C);
+    case "ucb1-tuned": {
+      const v = rewardVariance(child) + Math.sqrt((2 * ln) / n);
+      return q + policy.C * Math.sqrt((ln / n) * Math.min(0.25, v));
+    }
+    case "ucb-v":
+      return q + Math.sqrt((2 * rewardVariance(child) * policy.C * ln) / n) + (3 * policy.c * policy.C * ln) / n;
+    case "puct": {
+      const p = policy.priors === "game" ? (parent.priors.get(move) ?? 0) : 1 / parent.children.size;
+      return q + (policy.C * p * Math.sqrt(parent.N)) / (1 + child.N);
+    }
+    case "epsilon-greedy":
+      return q;
+    case "thompson":
+      return (policy.alpha + child.W) / (policy.alpha + policy.beta + child.N);
+  }
+}
+
+function sampleNormal(rand: RNG) {
+  const u = 1 - rand();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+}
+
+// Marsaglia–Tsang
+function sampleGamma(shape: number, rand: RNG): number {
+  if (shape < 1) return sampleGamma(shape + 1, rand) * Math.pow(rand(), 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number, v: number;
+    do {
+      x = sampleNormal(rand);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rand();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleBeta(a: number, b: number, rand: RNG) {
+  const x = sampleGamma(a, rand);
+  const y = sampleGamma(b, rand);
+  return x / (x + y);
+}
+
+// one level of the tree policy; ties are broken at random
+export function selectChild<State, Move>(node: Node<State, Move>, policy: SelectionPolicy, rand: RNG): Node<State, Move> {
+  if (policy.kind === "epsilon-greedy" && rand() < policy.epsilon) {
+    return randChoice([...node.children.values()], rand);
+  }
+  let best: Node<State, Move> | null = null;
+  let bestVal = -Infinity;
+  for (const [move, child] of node.children) {
+    const val = policy.kind === "thompson"
+      ? sampleBeta(policy.alpha + child.W, policy.beta + child.N - child.W, rand)
+      : policyScore(policy, node, child, move);
+    if (val > bestVal || (Math.abs(val - bestVal) < 1e-12 && rand() < 0.5)) {
+      bestVal = val;
+      best = child;
+    }
+  }
+  return best!;
+}
+
+export function isFullyExpanded<State, Move>(node: Node<State, Move>) {
+  return node.terminal === null && node.untried.length === 0 && node.children.size > 0;
+}
+
+export function select<State, Move>(node: Node<State, Move>, policy: SelectionPolicy, rand: RNG): Node<State, Move> {
+  while (isFullyExpanded(node)) node = selectChild(node, policy, rand);
+  return node;
+}
+
+// like select, but returns every node on the way down, root first
+export function selectPath<State, Move>(root: Node<State, Move>, policy: SelectionPolicy, rand: RNG): Node<State, Move>[] {
+  const path = [root];
+  let node = root;
+  while (isFullyExpanded(node)) {
+    node = selectChild(node, policy, rand);
+    path.push(node);
+  }
+  return path;
+}
+
+// positions already in the search, so a state reached by another move order reuses its node
+// and the tree becomes a DAG. Nodes keep the parent they were first created under, which is
+// why DAG searches back up along the path they walked instead of following `parent`.
+export type TranspositionTable<State, Move> = {
+  key: (state: State) => string;
+  nodes: Map<string, Node<State, Move>>;
+};
+
+// index every node reachable from `root`
+export function buildTable<State, Move>(root: Node<State, Move>, key: (state: State) => string): TranspositionTable<State, Move> {
+  const nodes = new Map<string, Node<State, Move>>();
+  const stack = [root];
+  while (stack.length) {
+    const n = stack.pop()!;
+    const k = key(n.state);
+    if (nodes.has(k)) continue;
+    nodes.set(k, n);
+    stack.push(...n.children.values());
+  }
+  return { key, nodes };
+}
+
+export function expand<State, Move>(
+  game: Game<State, Move>,
+  node: Node<State, Move>,
+  rand: RNG,
+  table?: TranspositionTable<State, Move>
+): Node<State, Move> {
+  if (node.terminal !== null || node.untried.length === 0) return node;
+  const m = randChoice(node.untried, rand);
+  node.untried = node.untried.filter((x) => x !== m);
+  const state = game.applyMove(node.state, m);
+  const k = table?.key(state);
+  let child = k !== undefined ? table!.nodes.get(k) : undefined;
+  if (!child) {
+    child = makeNode(game, state, node, m);
+    if (k !== undefined) table!.nodes.set(k, child);
+  }
+  node.children.set(m, child);
+  return child;
+}
+
+// "negamax" stores each node's W/wins/losses for the player who made the move into it,
+// so UCT at every level maximizes for the side to move there.
+// "root" scores every node for the root player, which lets the opponent play to help us.
+export type BackupMode = "negamax" | "root";
+
+// add (sign 1) or take back (sign -1) one visit; returns the reward credited to W
+function update<State, Move>(node: Node<State, Move>, outcome: Outcome, rootPlayer: Player, mode: BackupMode, sign = 1) {
+  const player = mode === "root" ? rootPlayer : otherPlayer(node.toMove);
+  const reward = rewardFrom(outcome, player);
+  node.N += sign;
+  node.W += sign * reward;
+  if (outcome === "D") node.draws += sign;
+  else if (outcome === player) node.wins += sign;
+  else node.losses += sign;
+  return reward;
+}
+
+export function backprop<State, Move>(node: Node<State, Move>, outcome: Outcome, rootPlayer: Player, mode: BackupMode = "negamax") {
+  for (let cur: Node<State, Move> | undefined = node; cur; cur = cur.parent) update(cur, outcome, rootPlayer, mode);
+}
+
+// backprop along the nodes an iteration actually visited (needed once nodes are shared);
+// returns the reward added to each of them
+export function backpropPath<State, Move>(path: Node<State, Move>[], outcome: Outcome, rootPlayer: Player, mode: BackupMode = "negamax") {
+  return path.map((n) => update(n, outcome, rootPlayer, mode));
+}
+
+// everything one iteration did, enough to show it again or take it back
+export type IterationRecord<Move> = {
+  path: Move[];                 // root to the node the rollout started from
+  expanded: boolean;            // the last move of `path` is the edge expansion added
+  trace: TraceStep<Move>[];
+  outcome: Outcome;
+  rewards: number[];            // W added to each node on the path, root first (N always grows by 1)
+};
+
+// one full select / expand / simulate / backprop pass. Pass a table to search a DAG with
+// shared transpositions.
+export function runIteration<State, Move>(
+  game: Game<State, Move>,
+  root: Node<State, Move>,
+  policy: SelectionPolicy,
+  rand: RNG,
+  mode: BackupMode = "negamax",
+  rolloutPolicy: RolloutPolicy = "random",
+  table?: TranspositionTable<State, Move>
+): IterationRecord<Move> {
+  const path = selectPath(root, policy, rand);
+  const leaf = path[path.length - 1];
+  const expanded = leaf.terminal === null && leaf.untried.length > 0;
+  if (expanded) path.push(expand(game, leaf, rand, table));
+  const { outcome, trace } = rollout(game, path[path.length - 1].state, rand, rolloutPolicy);
+  const rewards = backpropPath(path, outcome, root.toMove, mode);
+  return { path: movesAlong(path), expanded, trace, outcome, rewards };
+}
+
+// take an iteration back out of the tree: the reverse of runIteration, applied newest first
+export function undoIteration<State, Move>(root: Node<State, Move>, rec: IterationRecord<Move>, mode: BackupMode = "negamax") {
+  const nodes = [root];
+  for (const m of rec.path) nodes.push(nodes[nodes.length - 1].children.get(m)!);
+  for (const n of nodes) update(n, rec.outcome, root.toMove, mode, -1);
+  if (rec.expanded) {
+    const parent = nodes[nodes.length - 2];
+    const m = rec.path[rec.path.length - 1];
+    parent.children.delete(m);
+    parent.untried.push(m);
+  }
+}
+
+// moves between consecutive nodes of a path (shared nodes can sit under several parents)
+export function movesAlong<State, Move>(path: Node<State, Move>[]): Move[] {
+  const moves: Move[] = [];
+  for (let i = 1; i < path.length; i++) {
+    for (const [m, ch] of path[i - 1].children) {
+      if (ch === path[i]) {
+        moves.push(m);
+        break;
+      }
+    }
+  }
+  return moves;
+}
+
+// what selection saw at each node it passed: every child's score and the move it took.
+// Numbers are copied so they stay as they were before the iteration's backprop.
+export type SelectionStep<State, Move> = {
+  state: State;
+  toMove: Player;
+  N: number;
+  options: Array<{ move: Move; N: number; Q: number; score: number }>;
+  chosen: Move;
+};
+
+export function selectionSteps<State, Move>(root: Node<State, Move>, moves: Move[], policy: SelectionPolicy) {
+  const steps: SelectionStep<State, Move>[] = [];
+  let node = root;
+  for (const m of moves) {
+    const options = [...node.children.entries()].map(([move, ch]) => ({
+      move,
+      N: ch.N,
+      Q: ch.N > 0 ? ch.W / ch.N : 0,
+      score: policyScore(policy, node, ch, move),
+    }));
+    steps.push({ state: node.state, toMove: node.toMove, N: node.N, options, chosen: m });
+    const next = node.children.get(m);
+    if (!next) break;
+    node = next;
+  }
+  return { steps, leaf: node };
+}
+
+// size of the search graph: unique nodes, parent-child links, and how many links reuse a
+// node that would otherwise have been a duplicate subtree
+export function graphStats<State, Move>(root: Node<State, Move>) {
+  const seen = new Set<Node<State, Move>>([root]);
+  const stack = [root];
+  let edges = 0;
+  while (stack.length) {
+    const n = stack.pop()!;
+    for (const ch of n.children.values()) {
+      edges++;
+      if (!seen.has(ch)) {
+        seen.add(ch);
+        stack.push(ch);
+      }
+    }
+  }
+  return { nodes: seen.size, edges, shared: edges + 1 - seen.size };
+}
+
+// moves leading from the root down to `node`
+export function pathTo<State, Move>(node: Node<State, Move>): Move[] {
+  const path: Move[] = [];
+  for (let cur: Node<State, Move> | undefined = node; cur?.parent; cur = cur.parent) {
+    path.push(cur.moveFromParent as Move);
+  }
+  return path.reverse();
+}
+
+// make the child reached by `move` the new root, keeping the search effort below it.
+// In "root" mode its numbers were scored for the old root player, so they are flipped.
+export function promoteChild<State, Move>(
+  game: Game<State, Move>,
+  root: Node<State, Move>,
+  move: Move,
+  mode: BackupMode = "negamax"
+): Node<State, Move> {
+  const child = root.children.get(move) ?? makeNode(game, game.applyMove(root.state, move));
+  child.parent = undefined;
+  child.moveFromParent = null;
+  if (mode === "root") {
+    // shared nodes are reachable along several paths but must flip once
+    const seen = new Set([child]);
+    const stack = [child];
+    while (stack.length) {
+      const n = stack.pop()!;
+      n.W = n.N - n.W;
+      [n.wins, n.losses] = [n.losses, n.wins];
+      for (const ch of n.children.values()) {
+        if (seen.has(ch)) continue;
+        seen.add(ch);
+        stack.push(ch);
+      }
+    }
+  }
+  return child;
+}
+
+// plain per-child numbers, cheap to copy between threads
+export type ChildStats<Move> = { move: Move; N: number; W: number; wins: number; draws: number; losses: number };
+
+export function childStats<State, Move>(node: Node<State, Move>): ChildStats<Move>[] {
+  return [...node.children.entries()].map(([move, ch]) => ({
+    move,
+    N: ch.N,
+    W: ch.W,
+    wins: ch.wins,
+    draws: ch.draws,
+    losses: ch.losses,
+  }));
+}
+
+// most visited root child
+export function mostVisited<Move>(stats: ChildStats<Move>[]): Move | null {
+  let best: Move | null = null;
+  let bestN = -1;
+  for (const s of stats) {
+    if (s.N > bestN) {
+      bestN = s.N;
+      best = s.move;
+    }
+  }
+  return best;
+}
+
+export function bestChildMove<State, Move>(root: Node<State, Move>): Move | null {
+  return mostVisited(childStats(root));
+}
+
+// flat Monte Carlo results in the same shape, so both parts can share the final move rules
+export function statsFromMoveStats<Move>(move: Move, { wins, draws, losses }: MoveStats): ChildStats<Move> {
+  return { move, N: wins + draws + losses, W: wins + 0.5 * draws, wins, draws, losses };
+}
+
+
+
+// final move selection: which root child to play once the search stops
+export type FinalMoveRule = "max-visits" | "max-value" | "robust-max" | "secure";
+
+export const FINAL_RULE_NAMES: Record<FinalMoveRule, string> = {
+  "max-visits": "Max visits",
+  "max-value": "Max value (Q)",
+  "robust-max": "Robust-max",
+  "secure": "Secure (lower bound)",
+};
+
+function argmax<Move>(stats: ChildStats<Move>[], key: (s: ChildStats<Move>) => number): Move | null {
+  let best: Move | null = null;
+  let bestVal = -Infinity;
+  for (const s of stats) {
+    const v = key(s);
+    if (v > bestVal) {
+      bestVal = v;
+      best = s.move;
+    }
+  }
+  return best;
+}
+
+const qOf = (s: { N: number; W: number }) => (s.N ? s.W / s.N : 0);
+
+// secure child maximizes Q - A/√N. Robust-max needs one child to lead both visits and value;
+// when none does it returns null, meaning the search should run longer.
+export function chooseMove<Move>(stats: ChildStats<Move>[], rule: FinalMoveRule, secureA = 1): Move | null {
+  switch (rule) {
+    case "max-visits":
+      return mostVisited(stats);
+    case "max-value":
+      return argmax(stats, qOf);
+    case "robust-max": {
+      const maxN = Math.max(...stats.map((s) => s.N));
+      const maxQ = Math.max(...stats.map(qOf));
+      return stats.find((s) => s.N === maxN && qOf(s) === maxQ)?.move ?? null;
+    }
+    case "secure":
+      return argmax(stats, (s) => (s.N ? qOf(s) - secureA / Math.sqrt(s.N) : -Infinity));
+  }
+}
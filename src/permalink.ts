@@ -0,0 +1,36 @@
+// demo state mirrored in the URL hash (#tab=part2&seed=7&...) so a link reproduces a run
+
+export function readParams(): URLSearchParams {
+  return new URLSearchParams(window.location.hash.replace(/^#/, ""));
+}
+
+// merge into the hash without adding history entries; null removes a key
+export function writeParams(updates: Record<string, string | number | boolean | null>) {
+  const params = readParams();
+  for (const [k, v] of Object.entries(updates)) {
+    if (v === null) params.delete(k);
+    else params.set(k, typeof v === "boolean" ? (v ? "1" : "0") : String(v));
+  }
+  const hash = params.toString();
+  window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ""}`);
+}
+
+// typed readers that fall back to undefined on anything missing or malformed
+export function numberParam(params: URLSearchParams, key: string, min: number, max: number): number | undefined {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : undefined;
+}
+
+export function boolParam(params: URLSearchParams, key: string): boolean | undefined {
+  const raw = params.get(key);
+  if (raw === "1" || raw === "true") return true;
+  if (raw === "0" || raw === "false") return false;
+  return undefined;
+}
+
+export function choiceParam<T extends string>(params: URLSearchParams, key: string, choices: readonly T[]): T | undefined {
+  const raw = params.get(key);
+  return choices.find((c) => c === raw);
+}
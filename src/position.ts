@@ -0,0 +1,70 @@
+import { CLASSIC, linesFor, nextPlayer, type Board, type BoardSpec, type Cell } from "./tictactoe";
+import { otherPlayer, type Player } from "./mcts";
+
+// text notation for positions: the rows of X/O/_ separated by "/", then the side to move,
+// e.g. "XO_/_X_/O__ x" (larger boards just have longer and more rows). The side may be left out
+// when X moved first
+
+export type ParsedPosition = { ok: true; board: Board; side: Player } | { ok: false; error: string };
+
+export function formatPosition(board: Board, spec: BoardSpec = CLASSIC, side: Player = nextPlayer(board)): string {
+  const w = spec.width;
+  const rows = Array.from({ length: spec.height }, (_, r) => board.slice(r * w, r * w + w).map((c) => c ?? "_").join(""));
+  return `${rows.join("/")} ${side.toLowerCase()}`;
+}
+
+const EMPTY_CHARS = new Set(["_", ".", "-"]);
+
+export function parsePosition(text: string, spec: BoardSpec = CLASSIC): ParsedPosition {
+  const parts = text.trim().split(/\s+/);
+  if (parts.length === 0 || parts[0] === "" || parts.length > 2) {
+    return { ok: false, error: 'Expected the rows and an optional side, like "XO_/_X_/O__ x".' };
+  }
+  const rows = parts[0].split("/");
+  if (rows.length !== spec.height || rows.some((r) => r.length !== spec.width)) {
+    return { ok: false, error: `The board needs ${spec.height} rows of ${spec.width} cells separated by /.` };
+  }
+  const board: Board = [];
+  for (const ch of rows.join("").toUpperCase()) {
+    if (ch === "X" || ch === "O") board.push(ch);
+    else if (EMPTY_CHARS.has(ch)) board.push(null);
+    else return { ok: false, error: `Unknown cell "${ch}": use X, O or _.` };
+  }
+  let side = nextPlayer(board);
+  if (parts.length === 2) {
+    const s = parts[1].toUpperCase();
+    if (s !== "X" && s !== "O") return { ok: false, error: `Side to move must be x or o, not "${parts[1]}".` };
+    side = s;
+  }
+  const error = validatePosition(board, side, spec);
+  return error ? { ok: false, error } : { ok: true, board, side };
+}
+
+// null if the position, with `side` to move, can come up in a game where the sides alternate
+// (either one may have moved first), otherwise why not
+export function validatePosition(board: Board, side: Player, spec: BoardSpec = CLASSIC): string | null {
+  const x = board.filter((c) => c === "X").length;
+  const o = board.filter((c) => c === "O").length;
+  if (Math.abs(x - o) > 1) {
+    return `X has ${x} marks and O has ${o}; with the sides taking turns they differ by at most one.`;
+  }
+  if (x !== o) {
+    const expected: Player = x > o ? "O" : "X";
+    if (side !== expected) {
+      return `With ${x} X and ${o} O on the board it is ${expected}'s turn, not ${side}'s: ${otherPlayer(expected)} has the extra mark.`;
+    }
+  }
+  const lines = (p: Cell) => linesFor(spec).filter((l) => l.every((i) => board[i] === p));
+  const xLines = lines("X");
+  const oLines = lines("O");
+  const row = `${spec.k} in a row`;
+  if (xLines.length && oLines.length) return `X and O cannot both have ${row}.`;
+  if (xLines.length && side !== "O") return `X has ${row}, so X must have made the last move and O be to move.`;
+  if (oLines.length && side !== "X") return `O has ${row}, so O must have made the last move and X be to move.`;
+  // several winning lines are only possible if the final mark completed all of them
+  const won = xLines.length ? xLines : oLines;
+  if (won.length > 1 && !won[0].some((i) => won.every((l) => l.includes(i)))) {
+    return "The winning lines do not share a cell, so the game would have ended earlier.";
+  }
+  return null;
+}
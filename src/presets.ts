@@ -0,0 +1,39 @@
+import { emptyBoard, isClassic, specKey, type Board, type BoardSpec } from "./tictactoe";
+
+// Part2's starting positions, shared with scripts/check-invariants.ts
+export type Preset = { key: string; name: string; board: Board; note: string };
+
+export const PRESETS: Preset[] = [
+  { key: "empty", name: "Empty board", board: emptyBoard(), note: "Start position." },
+  { key: "midgame1", name: "Midgame (X to move)", board: ["X", "O", null, null, "X", null, "O", null, null], note: "Explore C." },
+  { key: "endgame1", name: "Near endgame (X to move)", board: ["X", "O", "X", "O", "X", null, null, "O", null], note: "Small action set." },
+  { key: "mustblock_pure", name: "Must block (X to move)", board: ["O", "O", null, null, "X", null, null, "X", null], note: "Block at (1,3)." },
+];
+
+// rows top to bottom with X / O / _
+function fromRows(rows: string[]): Board {
+  return rows.join("").split("").map((ch) => (ch === "X" || ch === "O" ? ch : null));
+}
+
+// hand-made positions for the larger boards; every other shape only gets the empty board
+const MNK_PRESETS: Record<string, Preset[]> = {
+  "4x4k3": [
+    { key: "mustblock", name: "Must block (X to move)", board: fromRows(["OO__", "_X__", "____", "__X_"]), note: "Block at (1,3)." },
+  ],
+  "4x4k4": [
+    { key: "mustblock", name: "Must block (X to move)", board: fromRows(["____", "_XX_", "_X__", "OOO_"]), note: "Block at (4,4)." },
+  ],
+  "5x5k4": [
+    { key: "mustblock", name: "Must block (X to move)", board: fromRows(["_____", "_X_X_", "_____", "_X___", "OOO__"]), note: "Block at (5,4)." },
+  ],
+};
+
+// starting positions for a board shape; `classic` is the 3x3 list the caller uses
+export function presetsFor(spec: BoardSpec, classic: Preset[] = PRESETS): Preset[] {
+  if (isClassic(spec)) return classic;
+  const cells = spec.width * spec.height;
+  return [
+    { key: "empty", name: "Empty board", board: emptyBoard(spec), note: `Start position: ${cells} moves to choose from.` },
+    ...(MNK_PRESETS[specKey(spec)] ?? []),
+  ];
+}
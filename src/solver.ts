@@ -0,0 +1,83 @@
+import type { Player } from "./mcts";
+import { CLASSIC, TicTacToe, canonicalKey, isClassic, type Board, type BoardSpec } from "./tictactoe";
+
+// exact game-theoretic values for tic-tac-toe, used as ground truth next to the Monte Carlo numbers.
+// Only the 3x3 board is solved: larger m,n,k boards have far too many positions to search here.
+export type SolvedResult = "win" | "draw" | "loss";
+
+// result for the player to move, and how many plies until the game ends under best play
+export type Solution = { result: SolvedResult; plies: number };
+
+const memo = new Map<string, Solution>();
+
+// higher is better for the side to move: win fast, lose slow
+export function solutionRank(s: Solution): number {
+  if (s.result === "win") return 100 - s.plies;
+  if (s.result === "loss") return -100 + s.plies;
+  return 0;
+}
+
+function flip(s: Solution): Solution {
+  const result: SolvedResult = s.result === "win" ? "loss" : s.result === "loss" ? "win" : "draw";
+  return { result, plies: s.plies + 1 };
+}
+
+// memoized negamax over every reachable position (a few thousand), so no pruning is needed
+export function solvePosition(board: Board): Solution {
+  const k = canonicalKey(board);   // mirrored positions share one entry
+  const hit = memo.get(k);
+  if (hit) return hit;
+
+  const out = TicTacToe.outcome(board);
+  let best: Solution;
+  if (out) {
+    // a finished game was won by whoever just moved
+    best = { result: out === "D" ? "draw" : "loss", plies: 0 };
+  } else {
+    best = { result: "loss", plies: -1 };
+    let bestRank = -Infinity;
+    for (const m of TicTacToe.legalMoves(board)) {
+      const s = flip(solvePosition(TicTacToe.applyMove(board, m)));
+      const r = solutionRank(s);
+      if (r > bestRank) {
+        best = s;
+        bestRank = r;
+      }
+    }
+  }
+  memo.set(k, best);
+  return best;
+}
+
+// a game O opened is one X opened with the marks swapped, and values for the side to move are the same
+function asXFirst(board: Board, first: Player): Board {
+  return first === "X" ? board : board.map((c) => (c === "X" ? "O" : c === "O" ? "X" : null));
+}
+
+// value of each legal move for the player making it; empty for boards other than 3x3
+export function solveMoves(position: Board, spec: BoardSpec = CLASSIC, first: Player = "X"): Map<number, Solution> {
+  const res = new Map<number, Solution>();
+  const board = asXFirst(position, first);
+  if (!isClassic(spec) || TicTacToe.outcome(board)) return res;
+  for (const m of TicTacToe.legalMoves(board)) {
+    res.set(m, flip(solvePosition(TicTacToe.applyMove(board, m))));
+  }
+  return res;
+}
+
+// true when `move` does worse than the best available result (win → draw, draw → loss, ...)
+export function isMistake(solutions: Map<number, Solution>, move: number): boolean {
+  const s = solutions.get(move);
+  if (!s) return false;
+  let best: SolvedResult = "loss";
+  for (const x of solutions.values()) {
+    if (x.result === "win") best = "win";
+    else if (x.result === "draw" && best === "loss") best = "draw";
+  }
+  return s.result !== best;
+}
+
+export function formatSolution(s: Solution): string {
+  if (s.result === "draw") return "Draw";
+  return `${s.result === "win" ? "Win" : "Loss"} in ${s.plies}`;
+}
@@ -0,0 +1,195 @@
+import type { Game, Outcome, Player } from "./mcts";
+
+// game helpers
+export type Cell = Player | null;
+export type Board = Cell[];   // width * height cells, row-major
+
+// m,n,k games: a width × height board where k in a row wins; tic-tac-toe is 3,3,3
+export type BoardSpec = { width: number; height: number; k: number };
+
+export const CLASSIC: BoardSpec = { width: 3, height: 3, k: 3 };
+export const MAX_SIDE = 6;   // beyond this the board no longer fits the page and searches crawl
+
+export const isClassic = (spec: BoardSpec) => spec.width === 3 && spec.height === 3 && spec.k === 3;
+
+export function specKey(spec: BoardSpec): string {
+  return `${spec.width}x${spec.height}k${spec.k}`;
+}
+
+export function specLabel(spec: BoardSpec): string {
+  return `${spec.width}×${spec.height}, ${spec.k} in a row`;
+}
+
+// every run of k cells in a row, column or diagonal
+const linesCache = new Map<string, number[][]>();
+
+export function linesFor(spec: BoardSpec): number[][] {
+  const key = specKey(spec);
+  const hit = linesCache.get(key);
+  if (hit) return hit;
+  const { width: w, height: h, k } = spec;
+  const lines: number[][] = [];
+  for (const [dr, dc] of [[0, 1], [1, 0], [1, 1], [1, -1]]) {
+    for (let r = 0; r < h; r++) {
+      for (let c = 0; c < w; c++) {
+        const endR = r + dr * (k - 1);
+        const endC = c + dc * (k - 1);
+        if (endR >= h || endC < 0 || endC >= w) continue;
+        lines.push(Array.from({ length: k }, (_, i) => (r + dr * i) * w + (c + dc * i)));
+      }
+    }
+  }
+  linesCache.set(key, lines);
+  return lines;
+}
+
+export const LINES = linesFor(CLASSIC);
+
+export function emptyBoard(spec: BoardSpec = CLASSIC): Board {
+  return new Array<Cell>(spec.width * spec.height).fill(null);
+}
+
+export function checkWinner(board: Board, spec: BoardSpec = CLASSIC): Outcome | null {
+  for (const line of linesFor(spec)) {
+    const first = board[line[0]];
+    if (first && line.every((i) => board[i] === first)) return first;
+  }
+  if (board.every(Boolean)) return "D";
+  return null;
+}
+
+export function legalMoves(board: Board): number[] {
+  const moves: number[] = [];
+  board.forEach((c, i) => { if (!c) moves.push(i); });
+  return moves;
+}
+
+// sides alternate, so whoever moved first is to move again whenever both have as many marks
+export function nextPlayer(board: Board, first: Player = "X"): Player {
+  const x = board.filter((c) => c === "X").length;
+  const o = board.filter((c) => c === "O").length;
+  if (x === o) return first;
+  return x > o ? "O" : "X";
+}
+
+// the inverse: who moved first, given the board and the side to move
+export function firstMover(board: Board, side: Player): Player {
+  const x = board.filter((c) => c === "X").length;
+  const o = board.filter((c) => c === "O").length;
+  if (x === o) return side;
+  return x > o ? "X" : "O";
+}
+
+// compact string form, used to key positions in tables
+export function boardKey(board: Board): string {
+  return board.map((c) => c ?? "_").join("");
+}
+
+export function indexToCoord(i: number, spec: BoardSpec = CLASSIC): string {
+  const row = Math.floor(i / spec.width) + 1;
+  const col = (i % spec.width) + 1;
+  return `(${row},${col})`;
+}
+
+// the m,n,k game on `spec`; `symmetric` expands only one move per symmetry class, and `first`
+// is the side that opened the game. Games are cached so the same settings always give the same object.
+const gameCache = new Map<string, Game<Board, number>>();
+
+export function mnkGame(spec: BoardSpec, symmetric = false, first: Player = "X"): Game<Board, number> {
+  const key = `${specKey(spec)}${symmetric ? "s" : ""}${first === "O" ? "o" : ""}`;
+  const hit = gameCache.get(key);
+  if (hit) return hit;
+  const lines = linesFor(spec);
+  // cells on more winning lines are worth more; on 3x3 that is center 3, corners 2, edges 1
+  const weight = new Array<number>(spec.width * spec.height).fill(0);
+  for (const line of lines) for (const i of line) weight[i]++;
+  const base: Game<Board, number> = {
+    legalMoves,
+    applyMove(board, move) {
+      const b = board.slice();
+      b[move] = nextPlayer(board, first);
+      return b;
+    },
+    outcome: (board) => checkWinner(board, spec),
+    toMove: (board) => nextPlayer(board, first),
+    // the usual rule of thumb, used as PUCT priors
+    prior: (_board, move) => Math.max(1, weight[move] - 1),
+  };
+  const game = symmetric ? { ...base, distinctMoves: (board: Board) => moveClasses(board, spec).map((cls) => cls[0]) } : base;
+  gameCache.set(key, game);
+  return game;
+}
+
+export const TicTacToe = mnkGame(CLASSIC);
+
+// symmetries of the board as index maps: SYMMETRIES[g][i] is where cell i ends up.
+// A square has 8 (rotations and mirrors), any other rectangle only the 4 that keep its shape.
+const symmetryCache = new Map<string, number[][]>();
+
+export function symmetriesFor(spec: BoardSpec): number[][] {
+  const key = `${spec.width}x${spec.height}`;
+  const hit = symmetryCache.get(key);
+  if (hit) return hit;
+  const { width: w, height: h } = spec;
+  const R = h - 1;
+  const C = w - 1;
+  const maps: Array<(r: number, c: number) => number[]> = [
+    (r, c) => [r, c],
+    (r, c) => [R - r, C - c],   // rotate 180
+    (r, c) => [r, C - c],       // mirror left-right
+    (r, c) => [R - r, c],       // mirror top-bottom
+  ];
+  if (w === h) {
+    maps.push(
+      (r, c) => [c, C - r],     // rotate 90
+      (r, c) => [C - c, r],     // rotate 270
+      (r, c) => [c, r],         // main diagonal
+      (r, c) => [C - c, R - r], // anti-diagonal
+    );
+  }
+  const syms = maps.map((f) => Array.from({ length: w * h }, (_, i) => {
+    const [r, c] = f(Math.floor(i / w), i % w);
+    return r * w + c;
+  }));
+  symmetryCache.set(key, syms);
+  return syms;
+}
+
+export const SYMMETRIES = symmetriesFor(CLASSIC);
+
+export function transformBoard(board: Board, sym: number[]): Board {
+  const out = new Array<Cell>(board.length).fill(null);
+  board.forEach((cell, i) => { out[sym[i]] = cell; });
+  return out;
+}
+
+// same key for every board in a symmetry class
+export function canonicalKey(board: Board, spec: BoardSpec = CLASSIC): string {
+  return symmetriesFor(spec).map((g) => boardKey(transformBoard(board, g))).sort()[0];
+}
+
+// legal moves grouped by the symmetries that leave `board` unchanged; the first move of each
+// group (the smallest index) is its representative
+export function moveClasses(board: Board, spec: BoardSpec = CLASSIC): number[][] {
+  const key = boardKey(board);
+  const stabilizer = symmetriesFor(spec).filter((g) => boardKey(transformBoard(board, g)) === key);
+  const seen = new Set<number>();
+  const classes: number[][] = [];
+  for (const m of legalMoves(board)) {
+    if (seen.has(m)) continue;
+    const cls = [...new Set(stabilizer.map((g) => g[m]))].sort((a, b) => a - b);
+    cls.forEach((x) => seen.add(x));
+    classes.push(cls);
+  }
+  return classes;
+}
+
+// representative of each move's class
+export function representativeOf(board: Board, spec: BoardSpec = CLASSIC): Map<number, number> {
+  const rep = new Map<number, number>();
+  for (const cls of moveClasses(board, spec)) for (const m of cls) rep.set(m, cls[0]);
+  return rep;
+}
+
+// tic-tac-toe whose search tree only expands one move per symmetry class
+export const TicTacToeSymmetric = mnkGame(CLASSIC, true);
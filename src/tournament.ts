@@ -0,0 +1,174 @@
+import {
+  childStats,
+  createMulberry32,
+  makeNode,
+  mostVisited,
+  randChoice,
+  runIteration,
+  scoreOf,
+  simulateMove,
+  type Game,
+  type Outcome,
+  type RNG,
+  type RolloutPolicy,
+} from "./mcts";
+
+// the players an arena can field: uniform random, Part1's flat Monte Carlo and Part2's UCT
+export type AgentKind = "random" | "flat" | "uct";
+
+export const AGENT_NAMES: Record<AgentKind, string> = {
+  "random": "Random",
+  "flat": "Flat Monte Carlo",
+  "uct": "UCT",
+};
+
+export type AgentConfig = {
+  kind: AgentKind;
+  budget: number;   // flat: playouts per legal move; uct: iterations per move
+  C: number;        // uct only
+  rolloutPolicy: RolloutPolicy;
+};
+
+export function agentLabel(a: AgentConfig): string {
+  switch (a.kind) {
+    case "random":
+      return "Random";
+    case "flat":
+      return `Flat ${a.budget}/move`;
+    case "uct":
+      return `UCT ${a.budget} C=${a.C}`;
+  }
+}
+
+export function pickMove<State, Move>(game: Game<State, Move>, agent: AgentConfig, state: State, rand: RNG): Move {
+  const moves = game.legalMoves(state);
+  switch (agent.kind) {
+    case "random":
+      return randChoice(moves, rand);
+    case "flat": {
+      let best = moves[0];
+      let bestScore = -Infinity;
+      for (const m of moves) {
+        const s = scoreOf(simulateMove(game, state, m, agent.budget, rand, agent.rolloutPolicy));
+        if (s > bestScore) {
+          best = m;
+          bestScore = s;
+        }
+      }
+      return best;
+    }
+    case "uct": {
+      // fresh tree every move, recommendation by visits like Part2's default
+      const root = makeNode(game, state);
+      const policy = { kind: "ucb1", C: agent.C } as const;
+      for (let i = 0; i < agent.budget; i++) runIteration(game, root, policy, rand, "negamax", agent.rolloutPolicy);
+      return mostVisited(childStats(root)) ?? moves[0];
+    }
+  }
+}
+
+// one finished game between two entries of the agent list
+export type ArenaGame<Move> = {
+  x: number;   // index of the agent that moved first
+  o: number;
+  seed: number;
+  moves: Move[];
+  outcome: Outcome;
+};
+
+// `pause` is awaited after every move, so a caller on the UI thread can yield between moves;
+// when it resolves to false an unfinished game is abandoned and null returned
+export async function playGame<State, Move>(
+  game: Game<State, Move>,
+  start: State,
+  agents: AgentConfig[],
+  x: number,
+  o: number,
+  seed: number,
+  pause: () => Promise<boolean> = async () => true
+): Promise<ArenaGame<Move> | null> {
+  const rand = createMulberry32(seed);
+  const moves: Move[] = [];
+  let state = start;
+  let outcome = game.outcome(state);
+  while (outcome === null) {
+    const agent = agents[game.toMove(state) === "X" ? x : o];
+    const m = pickMove(game, agent, state, rand);
+    moves.push(m);
+    state = game.applyMove(state, m);
+    outcome = game.outcome(state);
+    if (!(await pause()) && outcome === null) return null;
+  }
+  return { x, o, seed, moves, outcome };
+}
+
+// round robin: every pair plays `gamesPerPair` games, swapping who goes first each game
+export type Fixture = { x: number; o: number; seed: number };
+
+export function schedule(agentCount: number, gamesPerPair: number, seed: number): Fixture[] {
+  const fixtures: Fixture[] = [];
+  for (let a = 0; a < agentCount; a++) {
+    for (let b = a + 1; b < agentCount; b++) {
+      for (let g = 0; g < gamesPerPair; g++) {
+        const seedOf = (seed + fixtures.length) >>> 0;
+        fixtures.push(g % 2 === 0 ? { x: a, o: b, seed: seedOf } : { x: b, o: a, seed: seedOf });
+      }
+    }
+  }
+  return fixtures;
+}
+
+// table[i][j]: agent i's wins, draws and losses against agent j
+export type Tally = { wins: number; draws: number; losses: number };
+
+export function tallyGames<Move>(agentCount: number, games: ArenaGame<Move>[]): Tally[][] {
+  const table = Array.from({ length: agentCount }, () =>
+    Array.from({ length: agentCount }, () => ({ wins: 0, draws: 0, losses: 0 }))
+  );
+  for (const g of games) {
+    const xs = table[g.x][g.o];
+    const os = table[g.o][g.x];
+    if (g.outcome === "D") {
+      xs.draws++;
+      os.draws++;
+    } else if (g.outcome === "X") {
+      xs.wins++;
+      os.losses++;
+    } else {
+      xs.losses++;
+      os.wins++;
+    }
+  }
+  return table;
+}
+
+const expected = (ra: number, rb: number) => 1 / (1 + Math.pow(10, (rb - ra) / 400));
+
+// maximum-likelihood Elo (draws count half) from the whole table, so the order the games were
+// played in doesn't matter. Every agent also gets one virtual draw against a fixed reference
+// player, which keeps an unbeaten agent's rating finite. Ratings are shifted to average 1500.
+export function eloRatings(table: Tally[][]): number[] {
+  const n = table.length;
+  const r = new Array(n).fill(0);
+  const k = Math.log(10) / 400;
+  for (let iter = 0; iter < 200; iter++) {
+    for (let i = 0; i < n; i++) {
+      const e0 = expected(r[i], 0);
+      let grad = 0.5 - e0;
+      let curv = e0 * (1 - e0);
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue;
+        const t = table[i][j];
+        const games = t.wins + t.draws + t.losses;
+        if (games === 0) continue;
+        const e = expected(r[i], r[j]);
+        grad += t.wins + 0.5 * t.draws - games * e;
+        curv += games * e * (1 - e);
+      }
+      // one Newton step per agent, capped so early steps don't overshoot
+      r[i] += Math.max(-200, Math.min(200, grad / (k * curv)));
+    }
+  }
+  const mean = r.reduce((a, b) => a + b, 0) / Math.max(1, n);
+  return r.map((x) => 1500 + x - mean);
+}
@@ -0,0 +1,210 @@
+import { otherPlayer, type BackupMode, type Node, type Outcome, type Player } from "./mcts";
+import { CLASSIC, MAX_SIDE, checkWinner, indexToCoord, type Board, type BoardSpec } from "./tictactoe";
+import { formatPosition, validatePosition } from "./position";
+
+type TreeNode = Node<Board, number>;
+
+// saved trees list every node once with numeric ids, so shared (DAG) nodes stay shared
+type SavedNode = {
+  id: number;
+  state: Board;
+  toMove: Player;
+  priors?: Array<[number, number]>;   // [move, prior]; files from before per-edge priors have none
+  N: number;
+  W: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  terminal: Outcome | null;
+  untried: number[];
+  children: Array<[number, number]>;   // [move, child id]
+};
+
+// the search settings that decide the shape of the tree, so an imported tree keeps growing the way it was built
+export type TreeFlags = { symmetry: boolean; transpositions: boolean };
+
+const NO_FLAGS: TreeFlags = { symmetry: false, transpositions: false };
+
+// nodes[0] is the root; files saved before m,n,k boards have no spec and are 3x3, older files have neither flag
+export type SavedTree = {
+  format: "mcts-tree";
+  version: 1;
+  backupMode: BackupMode;
+  spec?: BoardSpec;
+  symmetry?: boolean;
+  transpositions?: boolean;
+  nodes: SavedNode[];
+};
+
+export type ImportedTree =
+  | { ok: true; root: TreeNode; backupMode: BackupMode; spec: BoardSpec; flags: TreeFlags }
+  | { ok: false; error: string };
+
+// number every node reachable from the root, root first
+function indexNodes(root: TreeNode) {
+  const ids = new Map<TreeNode, number>([[root, 0]]);
+  const order = [root];
+  for (let i = 0; i < order.length; i++) {
+    for (const ch of order[i].children.values()) {
+      if (ids.has(ch)) continue;
+      ids.set(ch, order.length);
+      order.push(ch);
+    }
+  }
+  return { ids, order };
+}
+
+export function treeToJson(root: TreeNode, backupMode: BackupMode, spec: BoardSpec = CLASSIC, flags: TreeFlags = NO_FLAGS): string {
+  const { ids, order } = indexNodes(root);
+  const saved: SavedTree = {
+    format: "mcts-tree",
+    version: 1,
+    backupMode,
+    spec,
+    symmetry: flags.symmetry,
+    transpositions: flags.transpositions,
+    nodes: order.map((n) => ({
+      id: ids.get(n)!,
+      state: n.state,
+      toMove: n.toMove,
+      priors: [...n.priors.entries()],
+      N: n.N,
+      W: n.W,
+      wins: n.wins,
+      draws: n.draws,
+      losses: n.losses,
+      terminal: n.terminal,
+      untried: n.untried,
+      children: [...n.children.entries()].map(([m, ch]) => [m, ids.get(ch)!]),
+    })),
+  };
+  return JSON.stringify(saved);
+}
+
+const isCount = (x: unknown) => typeof x === "number" && Number.isFinite(x) && x >= 0;
+const isSize = (x: unknown, max: number) => Number.isInteger(x) && (x as number) >= 3 && (x as number) <= max;
+
+export function treeFromJson(text: string): ImportedTree {
+  let data: SavedTree;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON." };
+  }
+  if (data?.format !== "mcts-tree" || data.version !== 1 || !Array.isArray(data.nodes) || data.nodes.length === 0) {
+    return { ok: false, error: "This is not a tree exported from this page." };
+  }
+  if (data.backupMode !== "negamax" && data.backupMode !== "root") {
+    return { ok: false, error: `Unknown backup mode "${String(data.backupMode)}".` };
+  }
+  const flagOk = (x: unknown) => x === undefined || typeof x === "boolean";
+  if (!flagOk(data.symmetry) || !flagOk(data.transpositions)) {
+    return { ok: false, error: "The symmetry or transpositions setting in this file is malformed." };
+  }
+  const spec = data.spec ?? CLASSIC;
+  if (!isSize(spec.width, MAX_SIDE) || !isSize(spec.height, MAX_SIDE) || !isSize(spec.k, Math.max(spec.width, spec.height))) {
+    return { ok: false, error: "The board size in this file is not supported." };
+  }
+  const cells = spec.width * spec.height;
+  const isMove = (x: unknown): x is number => Number.isInteger(x) && (x as number) >= 0 && (x as number) < cells;
+
+  const nodes: TreeNode[] = [];
+  for (const [i, s] of data.nodes.entries()) {
+    if (typeof s !== "object" || s === null) return { ok: false, error: `Node ${i} is not an object.` };
+    const boardOk = Array.isArray(s.state) && s.state.length === cells && s.state.every((c) => c === null || c === "X" || c === "O");
+    if (s.id !== i || !boardOk || (s.toMove !== "X" && s.toMove !== "O") || validatePosition(s.state, s.toMove, spec) !== null) {
+      return { ok: false, error: `Node ${i} does not hold a valid position.` };
+    }
+    if (![s.N, s.W, s.wins, s.draws, s.losses].every(isCount) || !Array.isArray(s.untried) || !s.untried.every(isMove)) {
+      return { ok: false, error: `Node ${i} has malformed statistics.` };
+    }
+    // W is a sum of rewards in [0, 1] under either backup, so Q stays within [0, 1]
+    if (s.W > s.N) return { ok: false, error: `Node ${i} has W = ${s.W} above its N = ${s.N}.` };
+    const occupied = s.untried.find((m) => s.state[m] !== null);
+    if (occupied !== undefined) {
+      return { ok: false, error: `Node ${i} lists ${indexToCoord(occupied, spec)} as untried, but that cell is taken.` };
+    }
+    if (new Set(s.untried).size !== s.untried.length) return { ok: false, error: `Node ${i} lists an untried move twice.` };
+    const priorsOk = s.priors === undefined || (Array.isArray(s.priors) && s.priors.every((e) => Array.isArray(e) && isMove(e[0]) && isCount(e[1])));
+    if (!priorsOk) return { ok: false, error: `Node ${i} has malformed priors.` };
+    nodes.push({
+      state: s.state,
+      toMove: s.toMove,
+      moveFromParent: null,
+      children: new Map(),
+      untried: s.untried,
+      priors: new Map(s.priors ?? []),
+      N: s.N,
+      W: s.W,
+      wins: s.wins,
+      draws: s.draws,
+      losses: s.losses,
+      terminal: checkWinner(s.state, spec),   // recomputed rather than trusted
+    });
+  }
+  // link children; a shared node keeps the first parent that reaches it. Every edge must play its move on the
+  // parent's board, which also rules out cycles since each step adds a mark
+  for (const [i, s] of data.nodes.entries()) {
+    if (!Array.isArray(s.children)) return { ok: false, error: `Node ${i} has malformed children.` };
+    for (const edge of s.children) {
+      const [m, id] = Array.isArray(edge) ? edge : [];
+      const ch = nodes[id as number];
+      if (!isMove(m) || !ch || id === 0) return { ok: false, error: `Node ${i} links to a missing child.` };
+      const parent = nodes[i];
+      if (parent.untried.includes(m)) return { ok: false, error: `Node ${i} lists ${indexToCoord(m, spec)} both as a child and as untried.` };
+      if (parent.children.has(m)) return { ok: false, error: `Node ${i} has two children for ${indexToCoord(m, spec)}.` };
+      const played = ch.toMove === otherPlayer(parent.toMove) && ch.state.every((c, j) => c === (j === m ? parent.toMove : parent.state[j]));
+      if (parent.terminal !== null || parent.state[m] !== null || !played) {
+        return { ok: false, error: `Node ${i} links to a position that move ${indexToCoord(m, spec)} does not lead to.` };
+      }
+      parent.children.set(m, ch);
+      if (!ch.parent) {
+        ch.parent = parent;
+        ch.moveFromParent = m;
+      }
+    }
+  }
+  // older files kept one prior per node, not per edge; fall back to uniform over each node's moves
+  for (const [i, s] of data.nodes.entries()) {
+    if (s.priors !== undefined) continue;
+    const moves = [...nodes[i].untried, ...nodes[i].children.keys()];
+    for (const m of moves) nodes[i].priors.set(m, 1 / moves.length);
+  }
+  return {
+    ok: true,
+    root: nodes[0],
+    backupMode: data.backupMode,
+    spec: { width: spec.width, height: spec.height, k: spec.k },
+    flags: { symmetry: data.symmetry ?? false, transpositions: data.transpositions ?? false },
+  };
+}
+
+// Graphviz source for every node with at least `minVisits` visits (the root is always kept)
+export function treeToDot(root: TreeNode, minVisits: number, spec: BoardSpec = CLASSIC): string {
+  const { ids, order } = indexNodes(root);
+  const kept = order.filter((n) => n === root || n.N >= minVisits);
+  const keep = new Set(kept);
+  const lines = ["digraph mcts {", "  node [shape=box, fontname=monospace, fontsize=10];"];
+  for (const n of kept) {
+    const q = n.N ? n.W / n.N : 0;
+    const label = `${formatPosition(n.state, spec, n.toMove).replace(/\//g, "\\n")}\\nN=${n.N} Q=${q.toFixed(3)}`;
+    lines.push(`  n${ids.get(n)} [label="${label}"${n === root ? ", style=bold" : ""}];`);
+  }
+  for (const n of kept) {
+    for (const [m, ch] of n.children) {
+      if (keep.has(ch)) lines.push(`  n${ids.get(n)} -> n${ids.get(ch)} [label="${indexToCoord(m, spec)}"];`);
+    }
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+// one row per root child; Q and W/D/L are for the player to move at the root
+export function rootStatsToCsv(root: TreeNode, spec: BoardSpec = CLASSIC): string {
+  const rows = ["move,cell,N,W,Q,wins,draws,losses"];
+  for (const [m, ch] of [...root.children.entries()].sort((a, b) => a[0] - b[0])) {
+    const q = ch.N ? ch.W / ch.N : 0;
+    rows.push([m, `"${indexToCoord(m, spec)}"`, ch.N, ch.W, q.toFixed(4), ch.wins, ch.draws, ch.losses].join(","));
+  }
+  return rows.join("\n");
+}
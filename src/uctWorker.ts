@@ -0,0 +1,110 @@
+// runs Part2's batch searches off the main thread
+import { buildTable, childStats, createMulberry32, makeNode, runIteration, type BackupMode, type ChildStats, type FinalMoveRule, type Node, type Player, type RolloutPolicy, type SelectionPolicy } from "./mcts";
+import { emptySeries, recordPoint, type ConvergenceSeries } from "./convergence";
+import { appendRecord, latest, type IterationLog } from "./history";
+import { checkTree, type Violation } from "./invariants";
+import { boardKey, mnkGame, type Board, type BoardSpec } from "./tictactoe";
+
+export type SearchSnapshot = {
+  iterations: number;
+  itersPerSec: number;
+  children: ChildStats<number>[];
+  series: ConvergenceSeries;
+};
+
+export type WorkerRequest =
+  | {
+      type: "start";
+      runId: number;
+      board: Board;
+      spec: BoardSpec;
+      root: Node<Board, number> | null;   // null = fresh tree
+      iters: number;
+      policy: SelectionPolicy;
+      seed: number;
+      backupMode: BackupMode;
+      rolloutPolicy: RolloutPolicy;
+      transpositions: boolean;
+      symmetry: boolean;
+      series: ConvergenceSeries | null;   // null = start a new chart
+      finalRule: FinalMoveRule;
+      secureA: number;
+      checkInvariants: boolean;   // debug: validate the tree after every iteration and stop at the first violation
+      promoted: boolean;          // the root was a child in an earlier search (see checkTree)
+      first: Player;              // the side that opened the game
+    }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "cancel" };
+
+export type WorkerResponse =
+  | { type: "progress"; runId: number; snapshot: SearchSnapshot }
+  | { type: "done"; runId: number; root: Node<Board, number>; iterations: number; cancelled: boolean; lastPath: number[] | null; series: ConvergenceSeries; log: IterationLog; violation: Violation | null };
+
+const SLICE_MS = 50;   // work between snapshots
+const PAUSE_POLL_MS = 60;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const post = (msg: WorkerResponse) => self.postMessage(msg);
+
+let current: { paused: boolean; cancelled: boolean } | null = null;
+
+async function run(req: Extract<WorkerRequest, { type: "start" }>) {
+  const token = { paused: false, cancelled: false };
+  current = token;
+
+  const game = mnkGame(req.spec, req.symmetry, req.first);
+  const root = req.root ?? makeNode(game, req.board);
+  // the component hands us shallow copies of its root, so re-attach the children
+  for (const ch of root.children.values()) ch.parent = root;
+
+  const table = req.transpositions ? buildTable(root, boardKey) : undefined;
+  const series = req.series ?? emptySeries();
+  const rand = createMulberry32(req.seed >>> 0);
+  let done = 0;
+  let busyMs = 0;
+  let lastPath: number[] | null = null;
+  const log: IterationLog = [];
+  let violation: Violation | null = null;
+  while (done < req.iters && !token.cancelled && !violation) {
+    if (token.paused) {
+      await sleep(PAUSE_POLL_MS);
+      continue;
+    }
+    const sliceStart = performance.now();
+    while (done < req.iters && !violation && performance.now() - sliceStart < SLICE_MS) {
+      const rec = runIteration(game, root, req.policy, rand, req.backupMode, req.rolloutPolicy, table);
+      appendRecord(log, rec);
+      lastPath = rec.path;
+      recordPoint(series, root, req.policy, req.finalRule, req.secureA);
+      done++;
+      if (req.checkInvariants) violation = checkTree(root, req.transpositions, req.spec, req.promoted);
+    }
+    busyMs += performance.now() - sliceStart;
+    post({
+      type: "progress",
+      runId: req.runId,
+      snapshot: { iterations: done, itersPerSec: busyMs > 0 ? (1000 * done) / busyMs : 0, children: childStats(root), series },
+    });
+    await sleep(0);   // let pause/cancel messages in
+  }
+  post({ type: "done", runId: req.runId, root, iterations: done, cancelled: token.cancelled, lastPath, series, log: latest(log), violation });
+}
+
+self.addEventListener("message", (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case "start":
+      void run(msg);
+      break;
+    case "pause":
+      if (current) current.paused = true;
+      break;
+    case "resume":
+      if (current) current.paused = false;
+      break;
+    case "cancel":
+      if (current) current.cancelled = true;
+      break;
+  }
+});
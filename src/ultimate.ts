@@ -0,0 +1,102 @@
+import type { Game, Outcome, Player } from "./mcts";
+import { LINES } from "./tictactoe";
+
+// nine 3x3 boards in a 3x3 meta-board. Cell index = sub-board * 9 + cell within it,
+// both counted row-major, so cell 40 is the center of the center board.
+export type Cell = Player | null;
+export type UltimateState = {
+  cells: Cell[];            // length 81
+  meta: (Outcome | null)[]; // length 9: who took each sub-board, D once it filled up without a line
+  last: number | null;      // previous move; its cell picks the board the reply must go to
+};
+
+export function emptyState(): UltimateState {
+  return { cells: new Array<Cell>(81).fill(null), meta: new Array<Outcome | null>(9).fill(null), last: null };
+}
+
+function lineWinner(get: (i: number) => Outcome | Cell): Player | null {
+  for (const [a, b, c] of LINES) {
+    const p = get(a);
+    if ((p === "X" || p === "O") && p === get(b) && p === get(c)) return p;
+  }
+  return null;
+}
+
+function subOutcome(cells: Cell[], sub: number): Outcome | null {
+  const w = lineWinner((i) => cells[sub * 9 + i]);
+  if (w) return w;
+  for (let i = 0; i < 9; i++) if (!cells[sub * 9 + i]) return null;
+  return "D";
+}
+
+export function nextPlayer(state: UltimateState): Player {
+  let x = 0, o = 0;
+  for (const c of state.cells) {
+    if (c === "X") x++;
+    else if (c === "O") o++;
+  }
+  return x === o ? "X" : "O";
+}
+
+// the sub-boards the next move may go to: the one the last move points at, or every open board
+// when that one is already decided
+export function activeBoards(state: UltimateState): number[] {
+  if (checkWinner(state) !== null) return [];
+  if (state.last !== null && state.meta[state.last % 9] === null) return [state.last % 9];
+  const open: number[] = [];
+  for (let s = 0; s < 9; s++) if (state.meta[s] === null) open.push(s);
+  return open;
+}
+
+export function legalMoves(state: UltimateState): number[] {
+  const moves: number[] = [];
+  for (const s of activeBoards(state)) {
+    for (let i = 0; i < 9; i++) if (!state.cells[s * 9 + i]) moves.push(s * 9 + i);
+  }
+  return moves;
+}
+
+export function applyMove(state: UltimateState, move: number): UltimateState {
+  const cells = state.cells.slice();
+  cells[move] = nextPlayer(state);
+  const meta = state.meta.slice();
+  const sub = Math.floor(move / 9);
+  meta[sub] = subOutcome(cells, sub);
+  return { cells, meta, last: move };
+}
+
+// three sub-boards in a line win; drawn sub-boards count for nobody
+export function checkWinner(state: UltimateState): Outcome | null {
+  const w = lineWinner((s) => state.meta[s]);
+  if (w) return w;
+  return state.meta.every((m) => m !== null) ? "D" : null;
+}
+
+// sub-boards of the winning meta line, or null
+export function winningBoards(state: UltimateState): number[] | null {
+  for (const line of LINES) {
+    const p = state.meta[line[0]];
+    if ((p === "X" || p === "O") && line.every((s) => state.meta[s] === p)) return line;
+  }
+  return null;
+}
+
+// replay a move list from the empty board; presets are written this way so the send rule always holds
+export function playMoves(moves: number[]): UltimateState {
+  return moves.reduce(applyMove, emptyState());
+}
+
+// row and column on the full 9x9 grid, 1-based
+export function cellLabel(move: number): string {
+  const sub = Math.floor(move / 9), i = move % 9;
+  const row = Math.floor(sub / 3) * 3 + Math.floor(i / 3) + 1;
+  const col = (sub % 3) * 3 + (i % 3) + 1;
+  return `(${row},${col})`;
+}
+
+export const Ultimate: Game<UltimateState, number> = {
+  legalMoves,
+  applyMove,
+  outcome: checkWinner,
+  toMove: nextPlayer,
+};